@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Check, Loader2, X } from 'lucide-react';
+import { EditProgress, PendingEdit, ProposedChangeKind } from '@/types/brd';
+import { SectionDiff } from '@/components/SectionDiff';
+import { RetrievedSections } from '@/components/RetrievedSections';
+
+const KIND_LABELS: Record<ProposedChangeKind, string> = {
+  update: 'Edit',
+  insert: 'New section',
+  delete: 'Delete',
+  rename: 'Rename',
+  move: 'Move'
+};
+
+interface AIEditReviewProps {
+  edit: PendingEdit | null;
+  isApplying: boolean;
+  progress: EditProgress | null;
+  onApply: (acceptedChangeIds: string[]) => Promise<void>;
+  onCancelApply: () => void;
+  onDiscard: () => Promise<void>;
+  // Dismissing the dialog leaves the proposal pending; only "Discard all" rejects it
+  onClose: () => void;
+}
+
+export const AIEditReview: React.FC<AIEditReviewProps> = ({
+  edit,
+  isApplying,
+  progress,
+  onApply,
+  onCancelApply,
+  onDiscard,
+  onClose
+}) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setAccepted(new Set(edit?.changes.map(change => change.id) ?? []));
+  }, [edit]);
+
+  const toggle = (changeId: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(changeId);
+      } else {
+        next.delete(changeId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={!!edit} onOpenChange={(open) => !open && !isApplying && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Review AI changes</DialogTitle>
+          <DialogDescription>
+            {edit?.prompt && <>&ldquo;{edit.prompt}&rdquo; &middot; </>}
+            Select the changes to apply. Nothing is saved until you confirm.
+          </DialogDescription>
+          {edit?.retrieval && <RetrievedSections retrieval={edit.retrieval} />}
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-6">
+            {edit?.changes.map(change => (
+              <div key={change.id} className="space-y-2">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <Checkbox
+                    checked={accepted.has(change.id)}
+                    onCheckedChange={(checked) => toggle(change.id, checked === true)}
+                    disabled={isApplying}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <div className="font-medium text-sm">
+                      <Badge variant="outline" className="mr-2">{KIND_LABELS[change.kind]}</Badge>
+                      {change.path && <span className="text-gray-500 mr-1">{change.path}</span>}
+                      {change.title}
+                    </div>
+                    {change.kind !== 'update' && (
+                      <p className="text-xs text-gray-800">{change.description}</p>
+                    )}
+                    {change.reasoning && (
+                      <p className="text-xs text-gray-600">{change.reasoning}</p>
+                    )}
+                  </div>
+                </label>
+                {/* Renames and moves keep the section body, so there is no diff to show */}
+                {(change.kind === 'update' || change.kind === 'insert' || change.kind === 'delete') && (
+                  <SectionDiff before={change.originalContent} after={change.proposedContent} />
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          {isApplying && progress && (
+            <span className="mr-auto text-sm text-gray-600">{progress.message}</span>
+          )}
+          {isApplying ? (
+            <Button variant="outline" onClick={onCancelApply}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onDiscard}>
+              <X className="mr-2 h-4 w-4" />
+              Discard all
+            </Button>
+          )}
+          <Button
+            onClick={() => onApply(Array.from(accepted))}
+            disabled={isApplying || accepted.size === 0}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isApplying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Check className="mr-2 h-4 w-4" />
+            )}
+            Apply {accepted.size} of {edit?.changes.length ?? 0}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
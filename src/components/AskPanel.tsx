@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { HelpCircle, Loader2, Quote } from 'lucide-react';
+import { Citation, DocumentAnswer } from '@/types/brd';
+import { RetrievedSections } from '@/components/RetrievedSections';
+
+interface AskPanelProps {
+  answers: DocumentAnswer[];
+  pendingQuestion: string | null;
+  onAsk: (question: string) => Promise<boolean>;
+  onShowCitation: (citation: Citation) => void;
+}
+
+export const AskPanel: React.FC<AskPanelProps> = ({
+  answers,
+  pendingQuestion,
+  onAsk,
+  onShowCitation
+}) => {
+  const [question, setQuestion] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [answers.length, pendingQuestion]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text) return;
+    setQuestion('');
+    const answered = await onAsk(text);
+    if (!answered) setQuestion(text);
+  };
+
+  const isAsking = pendingQuestion !== null;
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="flex-1 space-y-4 overflow-y-auto max-h-[calc(100vh-420px)] pr-1">
+        {answers.length === 0 && !isAsking && (
+          <div className="text-center py-8 text-gray-500">
+            <HelpCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Ask a question; answers cite the sections they come from</p>
+            <p className="text-xs mt-2">e.g. "What are the data retention requirements?"</p>
+          </div>
+        )}
+
+        {answers.map(answer => (
+          <div key={answer.id} className="space-y-2">
+            <div className="ml-6 rounded-lg bg-blue-50 p-3 text-sm text-gray-900">
+              <p className="whitespace-pre-wrap">{answer.question}</p>
+            </div>
+            <div className="mr-6 rounded-lg border border-gray-200 p-3 text-sm">
+              <p className="whitespace-pre-wrap">{answer.answer}</p>
+
+              {answer.citations.length > 0 && (
+                <div className="mt-2 space-y-1 border-t pt-2">
+                  {answer.citations.map((citation, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => onShowCitation(citation)}
+                      disabled={!citation.range}
+                      className="block w-full rounded p-1 text-left text-xs hover:bg-yellow-50 disabled:cursor-default disabled:hover:bg-transparent"
+                    >
+                      <span className="flex items-center gap-1 font-medium text-blue-700">
+                        <Quote className="h-3 w-3" />
+                        {citation.path} {citation.title}
+                      </span>
+                      <span className="italic text-gray-600">"{citation.quote}"</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-2">
+                <RetrievedSections retrieval={answer.retrieval} />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {pendingQuestion && (
+          <>
+            <div className="ml-6 rounded-lg bg-blue-50 p-3 text-sm text-gray-900">
+              <p className="whitespace-pre-wrap">{pendingQuestion}</p>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching the document
+            </div>
+          </>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk();
+            }
+          }}
+          placeholder="Ask a question about the document..."
+          className="min-h-[80px] resize-none"
+          disabled={isAsking}
+        />
+        <Button
+          onClick={handleAsk}
+          disabled={!question.trim() || isAsking}
+          className="w-full bg-blue-600 hover:bg-blue-700"
+        >
+          <HelpCircle className="mr-2 h-4 w-4" />
+          Ask
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,71 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { FileLoader } from '@/components/FileLoader';
 import { DocumentEditor } from '@/components/DocumentEditor';
 import { SidePanel } from '@/components/SidePanel';
+import { AIEditReview } from '@/components/AIEditReview';
+import { SummaryJobProgress } from '@/components/SummaryJobProgress';
 import { useBRDProcessor } from '@/hooks/useBRDProcessor';
+import { useSummaryJob } from '@/hooks/useSummaryJob';
+import { useChatThread } from '@/hooks/useChatThread';
+import { useDocumentQA } from '@/hooks/useDocumentQA';
+import { Citation, TextRange } from '@/types/brd';
 import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AccountMenu } from '@/components/AccountMenu';
+import { Library, Loader2 } from 'lucide-react';
 
-const BRDAssistant = () => {
+interface BRDAssistantProps {
+  documentId?: string;
+}
+
+const BRDAssistant: React.FC<BRDAssistantProps> = ({ documentId }) => {
+  const navigate = useNavigate();
   const { 
     document, 
+    documentId: loadedDocumentId,
+    filename,
     sections, 
     isProcessing, 
     loadDocument, 
+    openDocument,
     updateDocument, 
-    processAIEdit 
+    reviewEdit,
+    editProgress,
+    cancelAIEdit,
+    pendingEdit,
+    applyPendingEdit,
+    discardPendingEdit,
+    closePendingEdit,
+    editHistory,
+    revertEdit,
+    versions,
+    originalContent,
+    reloadSections
   } = useBRDProcessor();
+  const { job: summaryJob, isStalled, resumeJob } = useSummaryJob(loadedDocumentId, reloadSections);
+  const chat = useChatThread(loadedDocumentId);
+  const qa = useDocumentQA(loadedDocumentId);
+  const [highlight, setHighlight] = useState<TextRange | null>(null);
+
+  const showCitation = useCallback((citation: Citation) => {
+    // A fresh object so clicking the same citation again re-selects it
+    if (citation.range) setHighlight({ ...citation.range });
+  }, []);
+
+  useEffect(() => {
+    if (documentId && documentId !== loadedDocumentId) {
+      openDocument(documentId);
+    }
+  }, [documentId, loadedDocumentId, openDocument]);
+
+  const handleFileLoad = useCallback(async (content: string, name: string) => {
+    const id = await loadDocument(content, name);
+    if (id) {
+      navigate(`/documents/${id}`);
+    }
+  }, [loadDocument, navigate]);
 
   return (
     <div className="min-h-screen p-6">
@@ -26,32 +77,81 @@ const BRDAssistant = () => {
           <p className="text-gray-600 text-lg">
             Intelligent Business Requirements Document Editor with AI-powered content management
           </p>
+          <div className="mt-4 flex items-center justify-center gap-3">
+            {filename && document && (
+              <span className="text-sm font-medium text-gray-700">{filename}</span>
+            )}
+            <Button asChild variant="outline" size="sm">
+              <Link to="/documents">
+                <Library className="mr-2 h-4 w-4" />
+                Document library
+              </Link>
+            </Button>
+            <AccountMenu />
+          </div>
         </header>
 
-        {!document ? (
+        {!document && documentId ? (
+          <div className="flex justify-center py-16">
+            {isProcessing ? (
+              <Loader2 className="h-12 w-12 text-blue-500 animate-spin" />
+            ) : (
+              <p className="text-gray-600">This document could not be loaded.</p>
+            )}
+          </div>
+        ) : !document ? (
           <div className="flex justify-center">
             <Card className="w-full max-w-2xl">
-              <FileLoader onFileLoad={loadDocument} isLoading={isProcessing} />
+              <FileLoader onFileLoad={handleFileLoad} isLoading={isProcessing} />
             </Card>
           </div>
         ) : (
-          <div className="grid grid-cols-12 gap-6 h-[calc(100vh-200px)]">
-            <div className="col-span-3">
-              <SidePanel 
-                sections={sections}
-                onAIEdit={processAIEdit}
-                isProcessing={isProcessing}
-              />
-            </div>
-            <div className="col-span-9">
-              <DocumentEditor
-                content={document}
-                onChange={updateDocument}
-                sections={sections}
-              />
+          <>
+            <SummaryJobProgress job={summaryJob} isStalled={isStalled} onResume={resumeJob} />
+            <div className="grid grid-cols-12 gap-6 h-[calc(100vh-200px)]">
+              <div className="col-span-3">
+                <SidePanel 
+                  sections={sections}
+                  chatMessages={chat.messages}
+                  pendingChatMessage={chat.pendingMessage}
+                  chatProgress={chat.progress}
+                  onSendMessage={chat.sendMessage}
+                  onCancelMessage={chat.cancelMessage}
+                  onReviewEdit={reviewEdit}
+                  answers={qa.answers}
+                  pendingQuestion={qa.pendingQuestion}
+                  onAsk={qa.ask}
+                  onShowCitation={showCitation}
+                  editHistory={editHistory}
+                  onRevertEdit={revertEdit}
+                  versions={versions}
+                  originalContent={originalContent}
+                  isProcessing={isProcessing}
+                />
+              </div>
+              <div className="col-span-9">
+                <DocumentEditor
+                  content={document}
+                  onChange={updateDocument}
+                  sections={sections}
+                  highlight={highlight}
+                  filename={filename}
+                  versionNumber={versions.reduce((latest, version) => Math.max(latest, version.versionNumber), 0) || undefined}
+                />
+              </div>
             </div>
-          </div>
+          </>
         )}
+
+        <AIEditReview
+          edit={pendingEdit}
+          isApplying={isProcessing}
+          progress={editProgress}
+          onApply={applyPendingEdit}
+          onCancelApply={cancelAIEdit}
+          onDiscard={discardPendingEdit}
+          onClose={closePendingEdit}
+        />
       </div>
     </div>
   );
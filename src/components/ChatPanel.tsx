@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Eye, MessageSquare, Send } from 'lucide-react';
+import { AIEditStatus, ChatThreadMessage, EditProgress } from '@/types/brd';
+import { EditProgressView } from '@/components/EditProgressView';
+import { RetrievedSections } from '@/components/RetrievedSections';
+
+interface ChatPanelProps {
+  messages: ChatThreadMessage[];
+  pendingMessage: string | null;
+  progress: EditProgress | null;
+  editStatuses: Record<string, AIEditStatus>;
+  isProcessing: boolean;
+  onSend: (message: string) => Promise<boolean>;
+  onCancel: () => void;
+  onReviewEdit: (editId: string) => void;
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  pendingMessage,
+  progress,
+  editStatuses,
+  isProcessing,
+  onSend,
+  onCancel,
+  onReviewEdit
+}) => {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, pendingMessage, progress]);
+
+  const handleSend = async () => {
+    const message = draft.trim();
+    if (!message) return;
+    setDraft('');
+    const sent = await onSend(message);
+    if (!sent) setDraft(message);
+  };
+
+  const isSending = pendingMessage !== null;
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="flex-1 space-y-3 overflow-y-auto max-h-[calc(100vh-420px)] pr-1">
+        {messages.length === 0 && !isSending && (
+          <div className="text-center py-8 text-gray-500">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Ask about the document or describe a change</p>
+            <p className="text-xs mt-2">e.g. "Which sections cover security?" or "Add mobile security requirements"</p>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div
+            key={message.id}
+            className={`rounded-lg p-3 text-sm ${
+              message.role === 'user' ? 'ml-6 bg-blue-50 text-gray-900' : 'mr-6 border border-gray-200'
+            }`}
+          >
+            <p className="whitespace-pre-wrap">{message.content}</p>
+
+            {message.retrieval && (
+              <div className="mt-2">
+                <RetrievedSections retrieval={message.retrieval} />
+              </div>
+            )}
+
+            {message.editId && message.changes && (
+              <div className="mt-2 space-y-2 border-t pt-2">
+                <ul className="space-y-1">
+                  {message.changes.map(change => (
+                    <li key={change.id} className="text-xs text-gray-700">
+                      &bull; {change.description}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="text-xs capitalize">
+                    {editStatuses[message.editId] ?? 'pending'}
+                  </Badge>
+                  {(editStatuses[message.editId] ?? 'pending') === 'pending' && message.changes.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onReviewEdit(message.editId!)}
+                      disabled={isProcessing || isSending}
+                    >
+                      <Eye className="mr-1 h-3 w-3" />
+                      Review changes
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {pendingMessage && (
+          <div className="ml-6 rounded-lg bg-blue-50 p-3 text-sm text-gray-900">
+            <p className="whitespace-pre-wrap">{pendingMessage}</p>
+          </div>
+        )}
+        {progress && <EditProgressView progress={progress} onCancel={onCancel} />}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Ask a question or request a change..."
+          className="min-h-[80px] resize-none"
+          disabled={isSending}
+        />
+        <Button
+          onClick={handleSend}
+          disabled={!draft.trim() || isSending || isProcessing}
+          className="w-full bg-blue-600 hover:bg-blue-700"
+        >
+          <Send className="mr-2 h-4 w-4" />
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
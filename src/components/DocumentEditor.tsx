@@ -1,30 +1,64 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Save, Download } from 'lucide-react';
-import { Section } from '@/types/brd';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ExportDialog, ExportFormat, ExportRequest } from '@/components/ExportDialog';
+import { Save, Download, FileText, FileType, Printer } from 'lucide-react';
+import { Section, TextRange } from '@/types/brd';
 import { toast } from '@/hooks/use-toast';
+import { downloadBlob, exportBaseName, printHtml } from '@/lib/export/download';
+import { exportDocx } from '@/lib/export/docx';
+import { exportHtml, HTML_MIME_TYPE } from '@/lib/export/html';
+import { findTheme } from '@/lib/export/themes';
 
 interface DocumentEditorProps {
   content: string;
   onChange: (content: string) => void;
   sections: Section[];
+  // Selected and scrolled into view when it changes, e.g. a clicked citation
+  highlight?: TextRange | null;
+  // Name the document was uploaded under, used to name exports
+  filename?: string;
+  // Latest saved version number, shown on export cover pages
+  versionNumber?: number;
 }
 
 export const DocumentEditor: React.FC<DocumentEditorProps> = ({ 
   content, 
   onChange, 
-  sections 
+  sections,
+  highlight,
+  filename,
+  versionNumber
 }) => {
   const [localContent, setLocalContent] = useState(content);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     setLocalContent(content);
     setHasUnsavedChanges(false);
   }, [content]);
 
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!highlight || !textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(highlight.start, highlight.end);
+    // Browsers do not reliably scroll a textarea to a programmatic selection
+    const line = textarea.value.slice(0, highlight.start).split('\n').length - 1;
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 3);
+  }, [highlight]);
+
   const handleContentChange = (newContent: string) => {
     setLocalContent(newContent);
     setHasUnsavedChanges(newContent !== content);
@@ -40,15 +74,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
   };
 
   const handleDownload = () => {
-    const blob = new Blob([localContent], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'brd-document.md';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([localContent], { type: 'text/markdown' }), 'brd-document.md');
     
     toast({
       title: "Document downloaded",
@@ -56,6 +82,42 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
     });
   };
 
+  const handleExport = async (
+    format: ExportFormat,
+    { includeSummaries, themeId, print, ...details }: ExportRequest
+  ) => {
+    const options = { ...details, summaries: includeSummaries ? sections : undefined };
+    try {
+      if (format === 'docx') {
+        const blob = await exportDocx(localContent, options);
+        downloadBlob(blob, `${exportBaseName(filename)}.docx`);
+        toast({
+          title: "Document exported",
+          description: "The Word document has been downloaded"
+        });
+        return;
+      }
+
+      const html = exportHtml(localContent, { ...options, theme: findTheme(themeId) });
+      if (print) {
+        printHtml(html);
+        return;
+      }
+      downloadBlob(new Blob([html], { type: HTML_MIME_TYPE }), `${exportBaseName(filename)}.html`);
+      toast({
+        title: "Document exported",
+        description: "The HTML document has been downloaded; open it in a browser to print or save as PDF"
+      });
+    } catch (error) {
+      console.error('Error exporting document:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not create the exported document",
+        variant: "destructive"
+      });
+    }
+  };
+
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
@@ -74,15 +136,44 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
             <Save className="mr-2 h-4 w-4" />
             Save
           </Button>
-          <Button onClick={handleDownload} variant="outline">
-            <Download className="mr-2 h-4 w-4" />
-            Download
-          </Button>
+          {/* Not modal, so the export dialog it opens can take focus */}
+          <DropdownMenu modal={false}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={handleDownload}>
+                <FileText className="mr-2 h-4 w-4" />
+                Markdown (.md)
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setExportFormat('docx')}>
+                <FileType className="mr-2 h-4 w-4" />
+                Word (.docx)...
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setExportFormat('html')}>
+                <Printer className="mr-2 h-4 w-4" />
+                HTML / PDF...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </CardHeader>
+
+      <ExportDialog
+        format={exportFormat}
+        onClose={() => setExportFormat(null)}
+        defaultTitle={exportBaseName(filename)}
+        defaultVersion={versionNumber ? String(versionNumber) : '1'}
+        hasSummaries={sections.some(section => !!section.summary)}
+        onExport={handleExport}
+      />
       
       <CardContent className="flex-1 p-0">
         <textarea
+          ref={textareaRef}
           value={localContent}
           onChange={(e) => handleContentChange(e.target.value)}
           className="w-full h-full p-6 border-0 resize-none outline-none font-mono text-sm leading-relaxed"
@@ -0,0 +1,238 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AccountMenu } from '@/components/AccountMenu';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { BarChart3, Copy, Download, FileJson, FileText, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { DocumentSummary } from '@/types/brd';
+import { useDocumentLibrary } from '@/hooks/useDocumentLibrary';
+
+const DocumentLibrary = () => {
+  const {
+    documents,
+    isLoading,
+    isTransferring,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    exportWorkspace,
+    importWorkspace
+  } = useDocumentLibrary();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [renaming, setRenaming] = useState<DocumentSummary | null>(null);
+  const [newName, setNewName] = useState('');
+  const [deleting, setDeleting] = useState<DocumentSummary | null>(null);
+
+  const startRename = (document: DocumentSummary) => {
+    setRenaming(document);
+    setNewName(document.filename);
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !newName.trim()) return;
+    await renameDocument(renaming.id, newName.trim());
+    setRenaming(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) await importWorkspace(file);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteDocument(deleting.id);
+    setDeleting(null);
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="max-w-7xl mx-auto">
+        <header className="mb-8 text-center">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
+            Document Library
+          </h1>
+          <p className="text-gray-600 text-lg">
+            Every BRD you have uploaded, with its sections and AI edit history
+          </p>
+        </header>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+            <div>
+              <h2 className="text-xl font-semibold">Stored BRDs</h2>
+              <p className="text-sm text-gray-600">{documents.length} documents</p>
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImport}
+              />
+              <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={isTransferring}>
+                {isTransferring ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Import
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => exportWorkspace()}
+                disabled={isTransferring || documents.length === 0}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export all
+              </Button>
+              <Button asChild variant="outline">
+                <Link to="/usage">
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  LLM usage
+                </Link>
+              </Button>
+              <Button asChild className="bg-blue-600 hover:bg-blue-700">
+                <Link to="/">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Upload BRD
+                </Link>
+              </Button>
+              <AccountMenu />
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
+              </div>
+            ) : documents.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No documents yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Filename</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="text-right">Sections</TableHead>
+                    <TableHead>Last AI edit</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {documents.map(document => (
+                    <TableRow key={document.id}>
+                      <TableCell>
+                        <Link to={`/documents/${document.id}`} className="font-medium text-blue-600 hover:underline">
+                          {document.filename}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-gray-600">
+                        {formatDistanceToNow(new Date(document.updatedAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right">{document.sectionCount}</TableCell>
+                      <TableCell className="text-gray-600 max-w-xs">
+                        {document.lastAIEditAt ? (
+                          <span className="line-clamp-1" title={document.lastAIEditPrompt}>
+                            {formatDistanceToNow(new Date(document.lastAIEditAt), { addSuffix: true })}
+                            {document.lastAIEditPrompt && ` · ${document.lastAIEditPrompt}`}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button size="icon" variant="ghost" onClick={() => startRename(document)} aria-label="Rename">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => duplicateDocument(document.id)} aria-label="Duplicate">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => exportWorkspace(document)}
+                          disabled={isTransferring}
+                          aria-label="Export as JSON"
+                        >
+                          <FileJson className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setDeleting(document)} aria-label="Delete">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Rename document</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button onClick={handleRename} disabled={!newName.trim()}>Rename</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deleting?.filename}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The document, its sections, AI edit history and versions will be permanently removed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentLibrary;
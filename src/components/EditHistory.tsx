@@ -0,0 +1,66 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, Undo2 } from 'lucide-react';
+import { AIEditRecord, AIEditStatus } from '@/types/brd';
+
+interface EditHistoryProps {
+  edits: AIEditRecord[];
+  onRevert: (editId: string) => Promise<void>;
+  isProcessing: boolean;
+}
+
+const statusVariant: Record<AIEditStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  applied: 'default',
+  rejected: 'secondary',
+  reverted: 'destructive'
+};
+
+export const EditHistory: React.FC<EditHistoryProps> = ({ edits, onRevert, isProcessing }) => {
+  return (
+    <div className="space-y-2 max-h-96 overflow-y-auto">
+      {edits.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No AI edits yet</p>
+        </div>
+      ) : (
+        edits.map(edit => (
+          <div key={edit.id} className="p-3 rounded-lg border border-gray-200 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm font-medium text-gray-900 line-clamp-2">{edit.prompt}</p>
+              <Badge variant={statusVariant[edit.status]} className="text-xs capitalize">
+                {edit.status}
+              </Badge>
+            </div>
+
+            {edit.sectionTitles.length > 0 && (
+              <p className="text-xs text-gray-600">
+                Sections: {edit.sectionTitles.join(', ')}
+              </p>
+            )}
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">
+                {formatDistanceToNow(new Date(edit.createdAt), { addSuffix: true })}
+              </span>
+              {edit.status === 'applied' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRevert(edit.id)}
+                  disabled={isProcessing}
+                >
+                  <Undo2 className="mr-1 h-3 w-3" />
+                  Revert this edit
+                </Button>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
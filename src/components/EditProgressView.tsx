@@ -0,0 +1,59 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Square } from 'lucide-react';
+import { EditProgress } from '@/types/brd';
+import { RetrievedSections } from '@/components/RetrievedSections';
+
+// Only the tail of a long draft is shown while it streams in
+const DRAFT_PREVIEW_LENGTH = 600;
+
+interface EditProgressViewProps {
+  progress: EditProgress;
+  onCancel: () => void;
+}
+
+export const EditProgressView: React.FC<EditProgressViewProps> = ({ progress, onCancel }) => {
+  return (
+    <div className="space-y-3 rounded-lg border bg-gray-50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />
+          {progress.message}
+        </div>
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          <Square className="mr-2 h-3 w-3" />
+          Cancel
+        </Button>
+      </div>
+
+      {progress.retrieval && <RetrievedSections retrieval={progress.retrieval} />}
+
+      {progress.selectedSections.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {progress.selectedSections.map(section => (
+            <Badge key={section.id} variant="secondary">{section.title || section.id}</Badge>
+          ))}
+        </div>
+      )}
+
+      {progress.drafts.some(Boolean) && (
+        <ScrollArea className="max-h-64">
+          <div className="space-y-3">
+            {progress.drafts.filter(Boolean).map((draft, index) => (
+              <div key={index} className="space-y-1">
+                <div className="text-xs font-medium text-gray-700">{draft.title}</div>
+                <pre className="whitespace-pre-wrap text-xs text-gray-600 font-mono">
+                  {draft.content.length > DRAFT_PREVIEW_LENGTH
+                    ? `…${draft.content.slice(-DRAFT_PREVIEW_LENGTH)}`
+                    : draft.content}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
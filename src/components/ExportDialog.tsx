@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { format as formatDate } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileDown, Loader2, Printer } from 'lucide-react';
+import { ExportOptions } from '@/lib/export/document';
+import { DEFAULT_THEME_ID, EXPORT_THEMES } from '@/lib/export/themes';
+import { useAuth } from '@/hooks/useAuth';
+
+export type ExportFormat = 'docx' | 'html';
+
+export interface ExportRequest extends Omit<ExportOptions, 'summaries'> {
+  includeSummaries: boolean;
+  // HTML only: the theme, and whether to open the print dialog instead of
+  // downloading the file
+  themeId: string;
+  print: boolean;
+}
+
+interface ExportDialogProps {
+  // The format being exported, or null when the dialog is closed
+  format: ExportFormat | null;
+  onClose: () => void;
+  defaultTitle: string;
+  defaultVersion: string;
+  // Whether any section has a summary to put in the appendix
+  hasSummaries: boolean;
+  onExport: (format: ExportFormat, request: ExportRequest) => Promise<void>;
+}
+
+const DESCRIPTIONS: Record<ExportFormat, { title: string; description: string }> = {
+  docx: {
+    title: 'Export to Word',
+    description: 'The cover page shows these details, followed by a table of contents and the numbered sections.'
+  },
+  html: {
+    title: 'Export to HTML / PDF',
+    description: 'A single HTML file with a cover page and table of contents, laid out for printing. Print it to save a PDF.'
+  }
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  format,
+  onClose,
+  defaultTitle,
+  defaultVersion,
+  hasSummaries,
+  onExport
+}) => {
+  const { user } = useAuth();
+  const [title, setTitle] = useState(defaultTitle);
+  const [version, setVersion] = useState(defaultVersion);
+  const [date, setDate] = useState(() => formatDate(new Date(), 'yyyy-MM-dd'));
+  const [authors, setAuthors] = useState('');
+  const [includeSummaries, setIncludeSummaries] = useState(hasSummaries);
+  const [themeId, setThemeId] = useState(DEFAULT_THEME_ID);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const open = format !== null;
+
+  // Each time the dialog opens it starts from the document's current details
+  useEffect(() => {
+    if (!open) return;
+    setTitle(defaultTitle);
+    setVersion(defaultVersion);
+    setIncludeSummaries(hasSummaries);
+  }, [open, defaultTitle, defaultVersion, hasSummaries]);
+
+  const email = user?.email;
+  useEffect(() => {
+    if (email) setAuthors(current => current || email);
+  }, [email]);
+
+  const runExport = async (print: boolean) => {
+    if (!format) return;
+    setIsExporting(true);
+    try {
+      await onExport(format, {
+        title: title.trim() || defaultTitle,
+        version: version.trim(),
+        date: date ? formatDate(new Date(`${date}T00:00:00`), 'd MMMM yyyy') : '',
+        authors: authors.split(',').map(author => author.trim()).filter(Boolean),
+        includeSummaries: includeSummaries && hasSummaries,
+        themeId,
+        print
+      });
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runExport(false);
+  };
+
+  const text = DESCRIPTIONS[format ?? 'docx'];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{text.title}</DialogTitle>
+            <DialogDescription>{text.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-title">Title</Label>
+              <Input id="export-title" value={title} onChange={e => setTitle(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-version">Version</Label>
+                <Input id="export-version" value={version} onChange={e => setVersion(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-date">Date</Label>
+                <Input id="export-date" type="date" value={date} onChange={e => setDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-authors">Authors</Label>
+              <Input
+                id="export-authors"
+                value={authors}
+                placeholder="Separate names with commas"
+                onChange={e => setAuthors(e.target.value)}
+              />
+            </div>
+            {format === 'html' && (
+              <div className="space-y-2">
+                <Label htmlFor="export-theme">Theme</Label>
+                <Select value={themeId} onValueChange={setThemeId}>
+                  <SelectTrigger id="export-theme">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPORT_THEMES.map(theme => (
+                      <SelectItem key={theme.id} value={theme.id}>
+                        {theme.name} &middot; <span className="text-gray-500">{theme.description}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={includeSummaries && hasSummaries}
+                onCheckedChange={checked => setIncludeSummaries(checked === true)}
+                disabled={!hasSummaries}
+              />
+              Append section summaries
+              {!hasSummaries && <span className="text-gray-500">(none generated yet)</span>}
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isExporting}>
+              Cancel
+            </Button>
+            {format === 'html' && (
+              <Button type="button" variant="outline" onClick={() => runExport(true)} disabled={isExporting}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print / Save as PDF
+              </Button>
+            )}
+            <Button type="submit" disabled={isExporting}>
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileDown className="mr-2 h-4 w-4" />
+              )}
+              {format === 'html' ? 'Download .html' : 'Export .docx'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
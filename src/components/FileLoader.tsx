@@ -2,8 +2,20 @@
 import React, { useCallback, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { Upload, FileText, Loader2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { IMPORT_ACCEPT, importFile } from '@/lib/import/importFile';
+import { ImportResult } from '@/lib/import/markdownWriter';
 
 interface FileLoaderProps {
   onFileLoad: (content: string, filename: string) => void;
@@ -12,25 +24,55 @@ interface FileLoaderProps {
 
 export const FileLoader: React.FC<FileLoaderProps> = ({ onFileLoad, isLoading }) => {
   const [dragActive, setDragActive] = useState(false);
+  const [isConverting, setIsConverting] = useState(false);
+  const [review, setReview] = useState<{ filename: string; result: ImportResult } | null>(null);
 
-  const handleFile = useCallback((file: File) => {
-    if (!file.name.endsWith('.md')) {
+  const handleFile = useCallback(async (file: File) => {
+    setIsConverting(true);
+    try {
+      const result = await importFile(file);
+      if (!result) {
+        toast({
+          title: "Invalid file type",
+          description: "Please select a Markdown (.md), Word (.docx), HTML or Confluence (.xml) file",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (!result.markdown.trim()) {
+        toast({
+          title: "Nothing to import",
+          description: `${file.name} has no text that could be converted`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Let the user see what was lost in conversion before the document is saved
+      if (result.issues.length > 0) {
+        setReview({ filename: file.name, result });
+      } else {
+        onFileLoad(result.markdown, file.name);
+      }
+    } catch (error) {
+      console.error('Error importing file:', error);
       toast({
-        title: "Invalid file type",
-        description: "Please select a .md (markdown) file",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : `Could not read ${file.name}`,
         variant: "destructive"
       });
-      return;
+    } finally {
+      setIsConverting(false);
     }
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      onFileLoad(content, file.name);
-    };
-    reader.readAsText(file);
   }, [onFileLoad]);
 
+  const confirmImport = useCallback(() => {
+    if (!review) return;
+    onFileLoad(review.result.markdown, review.filename);
+    setReview(null);
+  }, [review, onFileLoad]);
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -57,13 +99,15 @@ export const FileLoader: React.FC<FileLoaderProps> = ({ onFileLoad, isLoading })
     }
   }, [handleFile]);
 
+  const busy = isLoading || isConverting;
+
   return (
     <CardContent className="p-8">
       <div
         className={`
           relative border-2 border-dashed rounded-lg p-12 text-center transition-all
           ${dragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'}
-          ${isLoading ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+          ${busy ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
         `}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
@@ -72,14 +116,14 @@ export const FileLoader: React.FC<FileLoaderProps> = ({ onFileLoad, isLoading })
       >
         <input
           type="file"
-          accept=".md"
+          accept={IMPORT_ACCEPT}
           onChange={handleInputChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={isLoading}
+          disabled={busy}
         />
         
         <div className="space-y-4">
-          {isLoading ? (
+          {busy ? (
             <Loader2 className="mx-auto h-12 w-12 text-blue-500 animate-spin" />
           ) : (
             <Upload className="mx-auto h-12 w-12 text-gray-400" />
@@ -87,17 +131,21 @@ export const FileLoader: React.FC<FileLoaderProps> = ({ onFileLoad, isLoading })
           
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              {isLoading ? 'Processing BRD Document...' : 'Upload your BRD file'}
+              {isConverting
+                ? 'Converting document...'
+                : isLoading ? 'Processing BRD Document...' : 'Upload your BRD file'}
             </h3>
             <p className="text-gray-600">
-              {isLoading 
-                ? 'Analyzing sections and generating summaries...'
-                : 'Drag and drop your .md file here or click to browse'
+              {isConverting
+                ? 'Turning headings, lists and tables into Markdown...'
+                : isLoading
+                  ? 'Saving the document and parsing sections...'
+                  : 'Drag and drop a .md, .docx, .html or Confluence .xml file here or click to browse'
               }
             </p>
           </div>
 
-          {!isLoading && (
+          {!busy && (
             <Button variant="outline" className="mt-4">
               <FileText className="mr-2 h-4 w-4" />
               Choose File
@@ -105,6 +153,28 @@ export const FileLoader: React.FC<FileLoaderProps> = ({ onFileLoad, isLoading })
           )}
         </div>
       </div>
+
+      <AlertDialog open={review !== null} onOpenChange={open => !open && setReview(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Some content could not be converted</AlertDialogTitle>
+            <AlertDialogDescription>
+              {review?.filename} was converted to Markdown, but these parts of it have no Markdown equivalent and were left out or simplified:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-6 text-sm text-gray-700 space-y-1">
+            {review?.result.issues.map(issue => (
+              <li key={issue.construct}>
+                {issue.construct} <span className="text-gray-500">({issue.count})</span>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmImport}>Import anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </CardContent>
   );
 };
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SignIn } from '@/components/SignIn';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2 } from 'lucide-react';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+// Every document and edit belongs to a user, so nothing is rendered until
+// there is a session whose JWT the database and edge function can check
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { session, isLoading, signInWithPassword, signUp, sendMagicLink } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SignIn
+        onPasswordSignIn={signInWithPassword}
+        onSignUp={signUp}
+        onMagicLink={sendMagicLink}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Search } from 'lucide-react';
+import { SectionRetrieval } from '@/types/brd';
+
+interface RetrievedSectionsProps {
+  retrieval: SectionRetrieval;
+}
+
+// What a prompt was answered from: the sections sent with their content and
+// retrieval scores, how many were reduced to summaries or left out, and how
+// much of the token budget the prompt used.
+export const RetrievedSections: React.FC<RetrievedSectionsProps> = ({ retrieval }) => {
+  const included = retrieval.sections.filter(section => section.context === 'full' || section.context === 'truncated');
+  const summarized = retrieval.sections.filter(section => section.context === 'summary').length;
+  const omitted = retrieval.sections.filter(section => section.context === 'omitted').length;
+
+  return (
+    <div className="space-y-1 text-xs text-gray-500">
+      <div className="flex flex-wrap items-center gap-1">
+        <Search className="h-3 w-3" />
+        <span>
+          {included.length} of {retrieval.sections.length} sections
+          {retrieval.method === 'keyword' && ' (keyword match)'}:
+        </span>
+        {included.map(section => (
+          <Badge
+            key={section.id}
+            variant="outline"
+            className="text-xs font-normal"
+            title={`Relevance ${section.score.toFixed(3)}, ${section.tokens} tokens`}
+          >
+            {section.path} {section.title}
+            {section.context === 'truncated' && <span className="ml-1 text-amber-600">truncated</span>}
+            <span className="ml-1 text-gray-400">{section.score.toFixed(2)}</span>
+          </Badge>
+        ))}
+      </div>
+      <p>
+        {summarized > 0 && `${summarized} as summaries · `}
+        {omitted > 0 && `${omitted} omitted · `}
+        {retrieval.budget.used.toLocaleString()} of {(retrieval.budget.limit - retrieval.budget.output).toLocaleString()} prompt tokens
+      </p>
+    </div>
+  );
+};
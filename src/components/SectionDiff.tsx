@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { diffLines, toSideBySide, DiffLine } from '@/lib/diff';
+
+interface SectionDiffProps {
+  before: string;
+  after: string;
+}
+
+const cellClass = (line?: DiffLine) => {
+  if (!line) return 'bg-gray-50';
+  if (line.op === 'removed') return 'bg-red-50 text-red-800';
+  if (line.op === 'added') return 'bg-green-50 text-green-800';
+  return '';
+};
+
+export const SectionDiff: React.FC<SectionDiffProps> = ({ before, after }) => {
+  const rows = useMemo(() => toSideBySide(diffLines(before, after)), [before, after]);
+
+  return (
+    <div className="grid grid-cols-2 border rounded-md overflow-hidden font-mono text-xs">
+      <div className="px-2 py-1 bg-gray-100 font-sans font-medium text-gray-600 border-b border-r">Current</div>
+      <div className="px-2 py-1 bg-gray-100 font-sans font-medium text-gray-600 border-b">Proposed</div>
+      {rows.map((row, index) => (
+        <React.Fragment key={index}>
+          <div className={`px-2 py-0.5 whitespace-pre-wrap break-words border-r ${cellClass(row.left)}`}>
+            {row.left?.text || ' '}
+          </div>
+          <div className={`px-2 py-0.5 whitespace-pre-wrap break-words ${cellClass(row.right)}`}>
+            {row.right?.text || ' '}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
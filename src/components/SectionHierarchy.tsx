@@ -1,53 +1,83 @@
-
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
-import { FileText, ChevronRight } from 'lucide-react';
-import { Section } from '@/types/brd';
+import { FileText, ChevronRight, ChevronDown } from 'lucide-react';
+import { Section, SectionNode } from '@/types/brd';
+import { nestSections } from '@shared/sectionTree';
 
 interface SectionHierarchyProps {
   sections: Section[];
 }
 
 export const SectionHierarchy: React.FC<SectionHierarchyProps> = ({ sections }) => {
-  const renderSection = (section: Section, index: number) => {
-    const indentLevel = Math.max(0, section.level - 1);
-    
+  const tree = useMemo(() => nestSections(sections), [sections]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderSection = (section: SectionNode, depth: number) => {
+    const hasChildren = section.children.length > 0;
+    const isCollapsed = collapsed.has(section.id);
+
     return (
-      <div
-        key={index}
-        className={`
-          p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors
-          ${indentLevel > 0 ? `ml-${indentLevel * 4}` : ''}
-        `}
-        style={{ marginLeft: `${indentLevel * 16}px` }}
-      >
-        <div className="flex items-start gap-2">
-          <div className="flex items-center gap-1 mt-0.5">
-            {indentLevel > 0 && <ChevronRight className="h-3 w-3 text-gray-400" />}
-            <FileText className="h-4 w-4 text-blue-600 flex-shrink-0" />
-          </div>
-          
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-2 mb-1">
-              <h4 className="font-medium text-sm text-gray-900 truncate">
-                {section.title}
-              </h4>
-              <Badge variant="outline" className="text-xs">
-                H{section.level}
-              </Badge>
+      <div key={section.id} className="space-y-2">
+        <div
+          className="p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+          style={{ marginLeft: `${depth * 16}px` }}
+        >
+          <div className="flex items-start gap-2">
+            <div className="flex items-center gap-1 mt-0.5">
+              {hasChildren ? (
+                <button
+                  type="button"
+                  onClick={() => toggle(section.id)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={isCollapsed ? 'Expand section' : 'Collapse section'}
+                >
+                  {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                </button>
+              ) : (
+                <span className="w-3" />
+              )}
+              <FileText className="h-4 w-4 text-blue-600 flex-shrink-0" />
             </div>
-            
-            {section.summary && (
-              <p className="text-xs text-gray-600 line-clamp-2">
-                {section.summary}
-              </p>
-            )}
-            
-            <div className="text-xs text-gray-400 mt-1">
-              {section.content?.length || 0} characters
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <h4 className="font-medium text-sm text-gray-900 truncate">
+                  {section.path && <span className="text-gray-500 mr-1">{section.path}</span>}
+                  {section.title}
+                </h4>
+                {section.level > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    H{section.level}
+                  </Badge>
+                )}
+              </div>
+
+              {section.summary && (
+                <p className="text-xs text-gray-600 line-clamp-2">
+                  {section.summary}
+                </p>
+              )}
+
+              <div className="text-xs text-gray-400 mt-1">
+                {section.content?.length || 0} characters
+              </div>
             </div>
           </div>
         </div>
+
+        {hasChildren && !isCollapsed && section.children.map(child => renderSection(child, depth + 1))}
       </div>
     );
   };
@@ -60,7 +90,7 @@ export const SectionHierarchy: React.FC<SectionHierarchyProps> = ({ sections })
           <p className="text-sm">No sections detected</p>
         </div>
       ) : (
-        sections.map(renderSection)
+        tree.map(section => renderSection(section, 0))
       )}
     </div>
   );
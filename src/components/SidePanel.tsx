@@ -1,37 +1,66 @@
 
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Section } from '@/types/brd';
-import { Bot, Hash, Loader2, Send } from 'lucide-react';
+import {
+  AIEditRecord,
+  AIEditStatus,
+  ChatThreadMessage,
+  Citation,
+  DocumentAnswer,
+  DocumentVersion,
+  EditProgress,
+  Section
+} from '@/types/brd';
+import { Bot, Hash } from 'lucide-react';
 import { SectionHierarchy } from '@/components/SectionHierarchy';
+import { EditHistory } from '@/components/EditHistory';
+import { VersionTimeline } from '@/components/VersionTimeline';
+import { ChatPanel } from '@/components/ChatPanel';
+import { AskPanel } from '@/components/AskPanel';
 
 interface SidePanelProps {
   sections: Section[];
-  onAIEdit: (prompt: string) => Promise<void>;
+  chatMessages: ChatThreadMessage[];
+  pendingChatMessage: string | null;
+  chatProgress: EditProgress | null;
+  onSendMessage: (message: string) => Promise<boolean>;
+  onCancelMessage: () => void;
+  onReviewEdit: (editId: string) => void;
+  answers: DocumentAnswer[];
+  pendingQuestion: string | null;
+  onAsk: (question: string) => Promise<boolean>;
+  onShowCitation: (citation: Citation) => void;
+  editHistory: AIEditRecord[];
+  onRevertEdit: (editId: string) => Promise<void>;
+  versions: DocumentVersion[];
+  originalContent: string;
   isProcessing: boolean;
 }
 
 export const SidePanel: React.FC<SidePanelProps> = ({ 
   sections, 
-  onAIEdit, 
+  chatMessages,
+  pendingChatMessage,
+  chatProgress,
+  onSendMessage,
+  onCancelMessage,
+  onReviewEdit,
+  answers,
+  pendingQuestion,
+  onAsk,
+  onShowCitation,
+  editHistory,
+  onRevertEdit,
+  versions,
+  originalContent,
   isProcessing 
 }) => {
-  const [prompt, setPrompt] = useState('');
-
-  const handleSubmitPrompt = async () => {
-    if (!prompt.trim()) return;
-    
-    try {
-      await onAIEdit(prompt);
-      setPrompt('');
-    } catch (error) {
-      console.error('AI edit failed:', error);
-    }
-  };
+  const editStatuses = useMemo(
+    () => Object.fromEntries(editHistory.map(edit => [edit.id, edit.status])) as Record<string, AIEditStatus>,
+    [editHistory]
+  );
 
   return (
     <Card className="h-full flex flex-col">
@@ -44,9 +73,12 @@ export const SidePanel: React.FC<SidePanelProps> = ({
       
       <CardContent className="flex-1 space-y-4">
         <Tabs defaultValue="hierarchy" className="h-full flex flex-col">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="hierarchy">Structure</TabsTrigger>
-            <TabsTrigger value="ai-edit">AI Edit</TabsTrigger>
+            <TabsTrigger value="assistant">Assistant</TabsTrigger>
+            <TabsTrigger value="ask">Ask</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="versions">Versions</TabsTrigger>
           </TabsList>
           
           <TabsContent value="hierarchy" className="flex-1 mt-4">
@@ -62,48 +94,38 @@ export const SidePanel: React.FC<SidePanelProps> = ({
             </div>
           </TabsContent>
           
-          <TabsContent value="ai-edit" className="flex-1 mt-4">
-            <div className="space-y-4 h-full flex flex-col">
-              <div>
-                <label className="text-sm font-medium mb-2 block">
-                  AI Editing Prompt
-                </label>
-                <Textarea
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  placeholder="Describe what changes you want to make to the BRD..."
-                  className="min-h-[120px] resize-none"
-                  disabled={isProcessing}
-                />
-              </div>
-              
-              <Button 
-                onClick={handleSubmitPrompt}
-                disabled={!prompt.trim() || isProcessing}
-                className="w-full bg-blue-600 hover:bg-blue-700"
-              >
-                {isProcessing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Send className="mr-2 h-4 w-4" />
-                    Apply Changes
-                  </>
-                )}
-              </Button>
-              
-              <div className="text-xs text-gray-500 space-y-1">
-                <p>💡 Example prompts:</p>
-                <ul className="space-y-1 ml-2">
-                  <li>• "Add mobile security requirements"</li>
-                  <li>• "Update risk analysis with cloud risks"</li>
-                  <li>• "Expand user acceptance criteria"</li>
-                </ul>
-              </div>
-            </div>
+          <TabsContent value="assistant" className="flex-1 mt-4">
+            <ChatPanel
+              messages={chatMessages}
+              pendingMessage={pendingChatMessage}
+              progress={chatProgress}
+              editStatuses={editStatuses}
+              isProcessing={isProcessing}
+              onSend={onSendMessage}
+              onCancel={onCancelMessage}
+              onReviewEdit={onReviewEdit}
+            />
+          </TabsContent>
+
+          <TabsContent value="ask" className="flex-1 mt-4">
+            <AskPanel
+              answers={answers}
+              pendingQuestion={pendingQuestion}
+              onAsk={onAsk}
+              onShowCitation={onShowCitation}
+            />
+          </TabsContent>
+
+          <TabsContent value="history" className="flex-1 mt-4">
+            <EditHistory
+              edits={editHistory}
+              onRevert={onRevertEdit}
+              isProcessing={isProcessing}
+            />
+          </TabsContent>
+
+          <TabsContent value="versions" className="flex-1 mt-4">
+            <VersionTimeline versions={versions} originalContent={originalContent} />
           </TabsContent>
         </Tabs>
       </CardContent>
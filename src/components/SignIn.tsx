@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, LogIn, Mail } from 'lucide-react';
+
+interface SignInProps {
+  onPasswordSignIn: (email: string, password: string) => Promise<boolean>;
+  onSignUp: (email: string, password: string) => Promise<boolean>;
+  onMagicLink: (email: string) => Promise<boolean>;
+}
+
+export const SignIn: React.FC<SignInProps> = ({ onPasswordSignIn, onSignUp, onMagicLink }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [pending, setPending] = useState<'sign-in' | 'sign-up' | 'link' | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+
+  const run = async (kind: 'sign-in' | 'sign-up' | 'link', action: () => Promise<boolean>) => {
+    setPending(kind);
+    const ok = await action();
+    setPending(null);
+    if (kind === 'link') setLinkSent(ok);
+  };
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('sign-in', () => onPasswordSignIn(email.trim(), password));
+  };
+
+  const handleMagicLinkSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('link', () => onMagicLink(email.trim()));
+  };
+
+  const hasCredentials = email.trim().length > 0 && password.length > 0;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50 p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Smart BRD Assistant
+          </CardTitle>
+          <CardDescription>
+            Sign in to work on your documents
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="magic-link">Email link</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handlePasswordSubmit} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="sign-in-email">Email</Label>
+                  <Input
+                    id="sign-in-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sign-in-password">Password</Label>
+                  <Input
+                    id="sign-in-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700"
+                    disabled={!hasCredentials || pending !== null}
+                  >
+                    {pending === 'sign-in' ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogIn className="mr-2 h-4 w-4" />
+                    )}
+                    Sign in
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    disabled={!hasCredentials || pending !== null}
+                    onClick={() => run('sign-up', () => onSignUp(email.trim(), password))}
+                  >
+                    {pending === 'sign-up' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create account
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              <form onSubmit={handleMagicLinkSubmit} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="magic-link-email">Email</Label>
+                  <Input
+                    id="magic-link-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={e => {
+                      setEmail(e.target.value);
+                      setLinkSent(false);
+                    }}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={!email.trim() || pending !== null}
+                >
+                  {pending === 'link' ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mail className="mr-2 h-4 w-4" />
+                  )}
+                  {linkSent ? 'Send another link' : 'Email me a sign-in link'}
+                </Button>
+                {linkSent && (
+                  <p className="text-sm text-gray-600 text-center">
+                    Open the link in the email to finish signing in.
+                  </p>
+                )}
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { ProcessingJob } from '@/types/brd';
+
+interface SummaryJobProgressProps {
+  job: ProcessingJob | null;
+  isStalled: boolean;
+  onResume: () => void;
+}
+
+export const SummaryJobProgress: React.FC<SummaryJobProgressProps> = ({
+  job,
+  isStalled,
+  onResume
+}) => {
+  if (!job || job.status === 'completed') return null;
+
+  const done = job.completed + job.failed;
+  const canResume = job.status === 'failed' || isStalled;
+
+  return (
+    <div className="mb-4 flex items-center gap-4 rounded-lg border bg-white px-4 py-3">
+      {!canResume && <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />}
+      <div className="flex-1 space-y-1">
+        <div className="text-sm text-gray-700">
+          {job.completed}/{job.total} sections summarized
+          {job.failed > 0 && <span className="text-red-600"> &middot; {job.failed} failed</span>}
+          {isStalled && <span className="text-amber-600"> &middot; no progress for a while</span>}
+        </div>
+        <Progress value={job.total > 0 ? (done / job.total) * 100 : 0} className="h-2" />
+      </div>
+      {canResume && (
+        <Button variant="outline" size="sm" onClick={onResume}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Resume
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AccountMenu } from '@/components/AccountMenu';
+import { Progress } from '@/components/ui/progress';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Library, Loader2, RefreshCw } from 'lucide-react';
+import { useUsageReport } from '@/hooks/useUsageReport';
+
+const RANGES = [7, 30, 90];
+const ACTION_COLORS = ['#2563eb', '#9333ea', '#16a34a', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#64748b'];
+const TOP_DOCUMENTS = 10;
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const BudgetMeter: React.FC<{ label: string; spent: number | null; limit: number | null }> = ({ label, spent, limit }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-medium">{label}</span>
+      <span className="text-gray-600">
+        {spent === null ? '—' : formatCost(spent)}
+        {limit !== null ? ` of ${formatCost(limit)}` : ' · no limit'}
+      </span>
+    </div>
+    {limit !== null && spent !== null && (
+      <Progress value={Math.min(100, limit > 0 ? (spent / limit) * 100 : 100)} />
+    )}
+  </div>
+);
+
+const UsageDashboard = () => {
+  const [days, setDays] = useState(30);
+  const { usage, limits, isLoading, reload } = useUsageReport(days);
+
+  const actions = useMemo(() => [...new Set(usage.map(row => row.action))].sort(), [usage]);
+
+  const chartConfig = useMemo(() => Object.fromEntries(actions.map((action, i) => [
+    action,
+    { label: action.replace(/_/g, ' '), color: ACTION_COLORS[i % ACTION_COLORS.length] }
+  ])) satisfies ChartConfig, [actions]);
+
+  const byDay = useMemo(() => {
+    const totals = new Map<string, Record<string, number | string>>();
+    usage.forEach(row => {
+      const entry = totals.get(row.day) ?? { day: row.day };
+      entry[row.action] = ((entry[row.action] as number | undefined) ?? 0) + row.costUsd;
+      totals.set(row.day, entry);
+    });
+    return [...totals.values()];
+  }, [usage]);
+
+  const byAction = useMemo(() => actions.map(action => {
+    const rows = usage.filter(row => row.action === action);
+    return {
+      action,
+      cost: rows.reduce((sum, row) => sum + row.costUsd, 0),
+      calls: rows.reduce((sum, row) => sum + row.calls, 0),
+      fill: `var(--color-${action})`
+    };
+  }), [usage, actions]);
+
+  const byDocument = useMemo(() => {
+    const totals = new Map<string, { name: string; cost: number; tokens: number }>();
+    usage.forEach(row => {
+      const key = row.documentId ?? 'none';
+      const entry = totals.get(key) ?? {
+        name: row.filename ?? (row.documentId ? 'Deleted document' : 'No document'),
+        cost: 0,
+        tokens: 0
+      };
+      entry.cost += row.costUsd;
+      entry.tokens += row.promptTokens + row.completionTokens;
+      totals.set(key, entry);
+    });
+    return [...totals.values()].sort((a, b) => b.cost - a.cost).slice(0, TOP_DOCUMENTS);
+  }, [usage]);
+
+  const totalCost = usage.reduce((sum, row) => sum + row.costUsd, 0);
+  const totalTokens = usage.reduce((sum, row) => sum + row.promptTokens + row.completionTokens, 0);
+  const totalCalls = usage.reduce((sum, row) => sum + row.calls, 0);
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="mb-2 text-center">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
+            LLM Usage
+          </h1>
+          <p className="text-gray-600 text-lg">
+            Token consumption and spend by document, action and day
+          </p>
+          <div className="mt-4 flex items-center justify-center gap-2">
+            {RANGES.map(range => (
+              <Button
+                key={range}
+                size="sm"
+                variant={range === days ? 'default' : 'outline'}
+                onClick={() => setDays(range)}
+              >
+                {range} days
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={reload} disabled={isLoading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link to="/documents">
+                <Library className="mr-2 h-4 w-4" />
+                Document library
+              </Link>
+            </Button>
+            <AccountMenu />
+          </div>
+        </header>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-12 w-12 text-blue-500 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <h2 className="text-sm font-medium text-gray-600">Spend, last {days} days</h2>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-3xl font-semibold">{formatCost(totalCost)}</p>
+                  <p className="text-sm text-gray-600">
+                    {totalCalls.toLocaleString()} calls · {totalTokens.toLocaleString()} tokens
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="md:col-span-2">
+                <CardHeader className="pb-2">
+                  <h2 className="text-sm font-medium text-gray-600">
+                    Budgets{limits && `, since ${format(parseISO(limits.periodStart), 'MMM d')}`}
+                  </h2>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {limits ? (
+                    <>
+                      <BudgetMeter label="All usage" spent={limits.spent.total} limit={limits.limits.total} />
+                      <BudgetMeter label="Your usage" spent={limits.spent.user} limit={limits.limits.perUser} />
+                      <p className="text-xs text-gray-500">
+                        Each document is limited to {limits.limits.perDocument !== null
+                          ? `${formatCost(limits.limits.perDocument)} a month`
+                          : 'no monthly amount'}. Calls are blocked once a budget is used up.
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">Budget limits could not be loaded</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <h2 className="text-xl font-semibold">Spend by day</h2>
+              </CardHeader>
+              <CardContent>
+                {byDay.length === 0 ? (
+                  <p className="text-center py-12 text-sm text-gray-500">No LLM calls in this period</p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                    <BarChart data={byDay}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="day"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(day: string) => format(parseISO(day), 'MMM d')}
+                      />
+                      <YAxis tickLine={false} axisLine={false} tickFormatter={(cost: number) => `$${cost}`} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {actions.map(action => (
+                        <Bar key={action} dataKey={action} stackId="cost" fill={`var(--color-${action})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <h2 className="text-xl font-semibold">Spend by action</h2>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={byAction}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="action"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(action: string) => action.replace(/_/g, ' ')}
+                      />
+                      <YAxis tickLine={false} axisLine={false} tickFormatter={(cost: number) => `$${cost}`} />
+                      <ChartTooltip content={<ChartTooltipContent hideLabel nameKey="action" />} />
+                      <Bar dataKey="cost" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <h2 className="text-xl font-semibold">Spend by document</h2>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={{ cost: { label: 'Spend', color: ACTION_COLORS[0] } }}
+                    className="h-64 w-full aspect-auto"
+                  >
+                    <BarChart data={byDocument} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(cost: number) => `$${cost}`} />
+                      <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DocumentVersion } from '@/types/brd';
+import { diffSections, SectionDiffStatus } from '@/lib/diff';
+import { SectionDiff } from '@/components/SectionDiff';
+
+const ORIGINAL_VERSION = 'original';
+
+interface VersionCompareProps {
+  versions: DocumentVersion[];
+  originalContent: string;
+  // A null base compares against the original upload; a null target closes the dialog.
+  initialBase: string | null;
+  initialTarget: string | null;
+  onClose: () => void;
+}
+
+const statusVariant: Record<SectionDiffStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  added: 'default',
+  removed: 'destructive',
+  modified: 'secondary',
+  unchanged: 'outline'
+};
+
+export const VersionCompare: React.FC<VersionCompareProps> = ({
+  versions,
+  originalContent,
+  initialBase,
+  initialTarget,
+  onClose
+}) => {
+  const [base, setBase] = useState(initialBase ?? ORIGINAL_VERSION);
+  const [target, setTarget] = useState(initialTarget ?? ORIGINAL_VERSION);
+
+  useEffect(() => {
+    setBase(initialBase ?? ORIGINAL_VERSION);
+    setTarget(initialTarget ?? ORIGINAL_VERSION);
+  }, [initialBase, initialTarget]);
+
+  const contentOf = (id: string) =>
+    id === ORIGINAL_VERSION ? originalContent : versions.find(v => v.id === id)?.content ?? '';
+
+  const baseContent = contentOf(base);
+  const targetContent = contentOf(target);
+
+  const sectionChanges = useMemo(
+    () => diffSections(baseContent, targetContent).filter(entry => entry.status !== 'unchanged'),
+    [baseContent, targetContent]
+  );
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ORIGINAL_VERSION}>Original upload</SelectItem>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            v{version.versionNumber} &middot; {version.message || version.source}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={initialTarget !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            Changes from the left version to the right version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          {versionSelect(base, setBase)}
+          <span className="text-gray-400">&rarr;</span>
+          {versionSelect(target, setTarget)}
+        </div>
+
+        <Tabs defaultValue="sections">
+          <TabsList>
+            <TabsTrigger value="sections">Sections</TabsTrigger>
+            <TabsTrigger value="lines">Lines</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sections">
+            <ScrollArea className="h-[55vh] pr-4">
+              {sectionChanges.length === 0 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">No section changes</p>
+              ) : (
+                <div className="space-y-4">
+                  {sectionChanges.map((entry, index) => (
+                    <div key={`${entry.title}-${index}`} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">{entry.title}</span>
+                        <Badge variant={statusVariant[entry.status]} className="text-xs capitalize">
+                          {entry.status}
+                        </Badge>
+                      </div>
+                      <SectionDiff before={entry.before ?? ''} after={entry.after ?? ''} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="lines">
+            <ScrollArea className="h-[55vh] pr-4">
+              <SectionDiff before={baseContent} after={targetContent} />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
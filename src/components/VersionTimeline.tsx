@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Bot, GitCompare, Pencil, Undo2, Upload } from 'lucide-react';
+import { DocumentVersion, VersionSource } from '@/types/brd';
+import { VersionCompare } from '@/components/VersionCompare';
+
+interface VersionTimelineProps {
+  versions: DocumentVersion[];
+  originalContent: string;
+}
+
+const sourceIcon: Record<VersionSource, React.ElementType> = {
+  upload: Upload,
+  manual: Pencil,
+  ai_edit: Bot,
+  revert: Undo2
+};
+
+const sourceLabel: Record<VersionSource, string> = {
+  upload: 'Upload',
+  manual: 'Manual save',
+  ai_edit: 'AI edit',
+  revert: 'Revert'
+};
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({ versions, originalContent }) => {
+  const [comparison, setComparison] = useState<{ base: string | null; target: string } | null>(null);
+
+  // Versions are listed newest first, so the previous version is the next entry.
+  const compareWithPrevious = (index: number) => {
+    const previous = versions[index + 1];
+    setComparison({
+      base: previous ? previous.id : null,
+      target: versions[index].id
+    });
+  };
+
+  return (
+    <>
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {versions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <GitCompare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No versions recorded</p>
+          </div>
+        ) : (
+          versions.map((version, index) => {
+            const Icon = sourceIcon[version.source];
+            return (
+              <div key={version.id} className="p-3 rounded-lg border border-gray-200 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                  <span className="text-sm font-medium">v{version.versionNumber}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {sourceLabel[version.source]}
+                  </Badge>
+                </div>
+
+                {version.message && (
+                  <p className="text-xs text-gray-600 line-clamp-2">{version.message}</p>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-400">
+                    {version.author ? `${version.author} · ` : ''}
+                    {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => compareWithPrevious(index)}>
+                    <GitCompare className="mr-1 h-3 w-3" />
+                    Diff
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <VersionCompare
+        versions={versions}
+        originalContent={originalContent}
+        initialBase={comparison?.base ?? null}
+        initialTarget={comparison?.target ?? null}
+        onClose={() => setComparison(null)}
+      />
+    </>
+  );
+};
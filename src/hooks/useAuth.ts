@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+export const useAuth = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe before reading the stored session so a sign-in completed by a
+    // magic link redirect is not missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setIsLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signInWithPassword = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      toast({
+        title: "Sign in failed",
+        description: error.message,
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin }
+    });
+    if (error) {
+      toast({
+        title: "Sign up failed",
+        description: error.message,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    // Projects that confirm email addresses return no session until the link
+    // in the confirmation email is followed
+    if (!data.session) {
+      toast({
+        title: "Check your email",
+        description: `We sent a confirmation link to ${email}`
+      });
+    }
+    return true;
+  }, []);
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.href }
+    });
+    if (error) {
+      toast({
+        title: "Could not send sign-in link",
+        description: error.message,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    toast({
+      title: "Check your email",
+      description: `We sent a sign-in link to ${email}`
+    });
+    return true;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  return {
+    session,
+    user: session?.user ?? null,
+    isLoading,
+    signInWithPassword,
+    signUp,
+    sendMagicLink,
+    signOut
+  };
+};
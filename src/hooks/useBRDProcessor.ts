@@ -1,16 +1,153 @@
 
-import { useState, useCallback } from 'react';
-import { Section } from '@/types/brd';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  AIEditRecord,
+  AIEditStatus,
+  DocumentVersion,
+  EditProgress,
+  PendingEdit,
+  Section,
+  SectionRetrieval,
+  SummaryCacheStats,
+  VersionSource
+} from '@/types/brd';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { describeFunctionError } from '@/lib/functionErrors';
+import { invokeStreaming } from '@/lib/functionStream';
+import {
+  initialEditProgress,
+  isAbortError,
+  ProposedChangeRow,
+  reduceEditProgress,
+  toProposedChange
+} from '@/lib/aiEdits';
+
+type SectionRow = Pick<
+  Tables<'brd_sections'>,
+  'id' | 'parent_id' | 'position' | 'path' | 'title' | 'level' | 'content' | 'summary' | 'start_index' | 'end_index'
+>;
+
+const toSection = (row: SectionRow): Section => ({
+  id: row.id,
+  parentId: row.parent_id,
+  position: row.position,
+  path: row.path,
+  title: row.title,
+  level: row.level,
+  content: row.content,
+  summary: row.summary ?? undefined,
+  startIndex: row.start_index ?? undefined,
+  endIndex: row.end_index ?? undefined
+});
+
+const toEditRecord = (row: Tables<'ai_edits'>): AIEditRecord => ({
+  id: row.id,
+  prompt: row.prompt,
+  status: row.status as AIEditStatus,
+  createdAt: row.created_at,
+  revertedAt: row.reverted_at ?? undefined,
+  summaryOfChanges: row.summary_of_changes ?? [],
+  sectionTitles: ((row.section_changes ?? []) as { title: string }[]).map(change => change.title)
+});
+
+const toVersion = (row: Tables<'brd_document_versions'>): DocumentVersion => ({
+  id: row.id,
+  versionNumber: row.version_number,
+  content: row.content,
+  source: row.source as VersionSource,
+  author: row.author ?? undefined,
+  message: row.message ?? undefined,
+  createdAt: row.created_at
+});
+
+interface ApplyEditResponse {
+  status: string;
+  updated_content: string;
+  summary_of_changes: string[];
+  summary_cache?: SummaryCacheStats;
+}
+
+const describeSummaryCache = (stats?: SummaryCacheStats) =>
+  stats && stats.hits + stats.misses > 0
+    ? ` (${stats.hits} summaries reused, ${stats.misses} generated)`
+    : '';
 
 export const useBRDProcessor = () => {
   const [document, setDocument] = useState<string>('');
   const [sections, setSections] = useState<Section[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [editProgress, setEditProgress] = useState<EditProgress | null>(null);
+  const editAbort = useRef<AbortController | null>(null);
   const [documentId, setDocumentId] = useState<string>('');
+  const [filename, setFilename] = useState<string>('');
+  const [pendingEdit, setPendingEdit] = useState<PendingEdit | null>(null);
+  const [editHistory, setEditHistory] = useState<AIEditRecord[]>([]);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [originalContent, setOriginalContent] = useState<string>('');
+
+  const loadEditHistory = useCallback(async () => {
+    if (!documentId) {
+      setEditHistory([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('ai_edits')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading edit history:', error);
+      return;
+    }
+
+    setEditHistory(data.map(toEditRecord));
+  }, [documentId]);
+
+  useEffect(() => {
+    loadEditHistory();
+  }, [loadEditHistory]);
+
+  const loadVersions = useCallback(async () => {
+    if (!documentId) {
+      setVersions([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('brd_document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('Error loading versions:', error);
+      return;
+    }
+
+    setVersions(data.map(toVersion));
+  }, [documentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const reloadSections = useCallback(async () => {
+    const { data: updatedSections, error: sectionsError } = await supabase
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('start_index');
+
+    if (!sectionsError && updatedSections) {
+      setSections(updatedSections.map(toSection));
+    }
+  }, [documentId]);
 
-  const loadDocument = useCallback(async (content: string, filename: string) => {
+  const loadDocument = useCallback(async (content: string, filename: string): Promise<string | undefined> => {
     setIsProcessing(true);
     
     try {
@@ -27,7 +164,7 @@ export const useBRDProcessor = () => {
 
       if (error) {
         console.error('Supabase function error:', error);
-        throw new Error(`Processing failed: ${error.message || 'Unknown error'}`);
+        throw new Error(`Processing failed: ${await describeFunctionError(error)}`);
       }
 
       if (!data) {
@@ -37,20 +174,17 @@ export const useBRDProcessor = () => {
       console.log('Document processed successfully:', data);
       
       setDocument(content);
+      setOriginalContent(content);
+      setFilename(filename);
       setDocumentId(data.document_id);
-      setSections(data.sections.map((section: any) => ({
-        title: section.title,
-        level: section.level,
-        content: section.content,
-        summary: section.summary,
-        startIndex: section.start_index,
-        endIndex: section.end_index
-      })));
+      setSections((data.sections as SectionRow[]).map(toSection));
       
       toast({
         title: "Document loaded successfully",
-        description: `Processed ${data.sections.length} sections from ${filename}`
+        description: `Parsed ${data.sections.length} sections from ${filename}; summaries are being generated`
       });
+
+      return data.document_id;
     } catch (error) {
       console.error('Error loading document:', error);
       toast({
@@ -63,6 +197,48 @@ export const useBRDProcessor = () => {
     }
   }, []);
 
+  const openDocument = useCallback(async (id: string) => {
+    setIsProcessing(true);
+
+    try {
+      const { data: stored, error: docError } = await supabase
+        .from('brd_documents')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (docError || !stored) {
+        throw new Error('Document not found');
+      }
+
+      const { data: storedSections, error: sectionsError } = await supabase
+        .from('brd_sections')
+        .select('*')
+        .eq('document_id', id)
+        .order('start_index');
+
+      if (sectionsError) {
+        throw new Error(`Failed to load sections: ${sectionsError.message}`);
+      }
+
+      setDocument(stored.current_content);
+      setOriginalContent(stored.original_content);
+      setFilename(stored.filename);
+      setDocumentId(stored.id);
+      setSections(storedSections.map(toSection));
+      setPendingEdit(null);
+    } catch (error) {
+      console.error('Error opening document:', error);
+      toast({
+        title: "Error opening document",
+        description: error instanceof Error ? error.message : "Failed to load the BRD",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
   const updateDocument = useCallback(async (newContent: string) => {
     if (!documentId) {
       console.warn('No document ID available for update');
@@ -72,21 +248,25 @@ export const useBRDProcessor = () => {
     try {
       console.log('Updating document content...');
       
-      // Update document in database
-      const { error } = await supabase
-        .from('brd_documents')
-        .update({ current_content: newContent })
-        .eq('id', documentId);
+      // The edge function re-parses the document, keeps section ids and
+      // summaries for unchanged sections and records a manual version.
+      const { error } = await supabase.functions.invoke('ai-brd-processor', {
+        body: {
+          action: 'save_document',
+          document_id: documentId,
+          content: newContent
+        }
+      });
 
       if (error) {
-        throw new Error(`Database update failed: ${error.message}`);
+        throw new Error(`Saving failed: ${await describeFunctionError(error)}`);
       }
 
       setDocument(newContent);
-      
-      // Re-parse sections locally for immediate UI update
-      const parsedSections = parseMarkdownSections(newContent);
-      setSections(parsedSections);
+      loadVersions();
+
+      // Reload sections to pick up regenerated summaries and new line ranges
+      await reloadSections();
       
       console.log('Document updated successfully');
       
@@ -98,136 +278,186 @@ export const useBRDProcessor = () => {
         variant: "destructive"
       });
     }
-  }, [documentId]);
+  }, [documentId, loadVersions, reloadSections]);
 
-  const processAIEdit = useCallback(async (prompt: string) => {
-    if (!documentId) {
+  // Opens a stored proposal (e.g. from the chat thread) for review
+  const reviewEdit = useCallback(async (editId: string) => {
+    const { data, error } = await supabase
+      .from('ai_edits')
+      .select('*')
+      .eq('id', editId)
+      .single();
+
+    if (error || !data) {
       toast({
-        title: "No document loaded",
-        description: "Please load a document first",
+        title: "Edit not found",
+        description: error?.message ?? "The proposal could not be loaded",
         variant: "destructive"
       });
       return;
     }
 
-    if (!prompt.trim()) {
+    if (data.status !== 'pending') {
       toast({
-        title: "Empty prompt",
-        description: "Please enter a description of the changes you want to make",
-        variant: "destructive"
+        title: "Nothing to review",
+        description: `This edit has already been ${data.status}`
       });
       return;
     }
 
+    setPendingEdit({
+      id: data.id,
+      prompt: data.prompt,
+      changes: ((data.proposed_changes ?? []) as unknown as ProposedChangeRow[]).map(toProposedChange),
+      summaryOfChanges: data.summary_of_changes ?? [],
+      retrieval: (data.retrieval as unknown as SectionRetrieval | null) ?? undefined
+    });
+  }, []);
+
+  const applyPendingEdit = useCallback(async (acceptedChangeIds: string[]) => {
+    if (!pendingEdit) return;
+
     setIsProcessing(true);
-    
+
     try {
-      console.log('Processing AI edit with prompt:', prompt);
-      
-      const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
-        body: {
-          action: 'ai_edit',
-          prompt: prompt.trim(),
-          document_id: documentId
+      const controller = new AbortController();
+      editAbort.current = controller;
+      let progress = initialEditProgress('patching');
+      setEditProgress(progress);
+
+      const data = await invokeStreaming<ApplyEditResponse>(
+        {
+          action: 'apply_edit',
+          edit_id: pendingEdit.id,
+          accepted_change_ids: acceptedChangeIds
+        },
+        controller.signal,
+        (event, payload) => {
+          progress = reduceEditProgress(progress, event, payload);
+          setEditProgress(progress);
         }
-      });
+      );
 
-      if (error) {
-        console.error('AI edit function error:', error);
-        throw new Error(`AI processing failed: ${error.message || 'Unknown error'}`);
-      }
+      setPendingEdit(null);
+      loadEditHistory();
+      loadVersions();
 
-      if (!data) {
-        throw new Error('No response from AI processing');
+      if (data.status !== 'applied') {
+        toast({
+          title: "AI changes discarded",
+          description: "The document was left unchanged"
+        });
+        return;
       }
 
-      console.log('AI edit completed successfully:', data);
+      console.log('AI edit applied successfully:', data);
       
       // Update document content
       setDocument(data.updated_content);
       
       // Reload sections from database to get updated summaries
-      const { data: updatedSections, error: sectionsError } = await supabase
-        .from('brd_sections')
-        .select('*')
-        .eq('document_id', documentId)
-        .order('start_index');
-
-      if (!sectionsError && updatedSections) {
-        setSections(updatedSections.map((section: any) => ({
-          title: section.title,
-          level: section.level,
-          content: section.content,
-          summary: section.summary,
-          startIndex: section.start_index,
-          endIndex: section.end_index
-        })));
-      }
+      await reloadSections();
       
       const changes = data.summary_of_changes || [];
       toast({
         title: "AI edit completed",
-        description: changes.length > 0 ? changes.join(', ') : 'Document updated successfully'
+        description: (changes.length > 0 ? changes.join(', ') : 'Document updated successfully') +
+          describeSummaryCache(data.summary_cache)
       });
-      
+
     } catch (error) {
-      console.error('Error processing AI edit:', error);
+      if (isAbortError(error)) {
+        toast({
+          title: "Apply cancelled",
+          description: "The changes are still waiting for review"
+        });
+        return;
+      }
+      console.error('Error applying AI edit:', error);
       toast({
-        title: "AI edit failed", 
-        description: error instanceof Error ? error.message : "Failed to process your request",
+        title: "AI edit failed",
+        description: error instanceof Error ? error.message : "Failed to apply the changes",
         variant: "destructive"
       });
     } finally {
+      editAbort.current = null;
+      setEditProgress(null);
       setIsProcessing(false);
     }
-  }, [documentId]);
+  }, [pendingEdit, reloadSections, loadEditHistory, loadVersions]);
 
-  const parseMarkdownSections = useCallback((content: string): Section[] => {
-    const lines = content.split('\n');
-    const parsedSections: Section[] = [];
-    let currentSection: Partial<Section> | null = null;
-    let contentLines: string[] = [];
+  const cancelAIEdit = useCallback(() => {
+    editAbort.current?.abort();
+  }, []);
 
-    lines.forEach((line, index) => {
-      const headerMatch = line.match(/^(#+)\s+(.+)$/);
-      
-      if (headerMatch) {
-        if (currentSection) {
-          parsedSections.push({
-            ...currentSection,
-            content: contentLines.join('\n').trim(),
-            endIndex: index - 1
-          } as Section);
+  const discardPendingEdit = useCallback(() => applyPendingEdit([]), [applyPendingEdit]);
+
+  // Closes the review without deciding; the proposal stays pending and can be
+  // reopened from the chat thread
+  const closePendingEdit = useCallback(() => setPendingEdit(null), []);
+
+  const revertEdit = useCallback(async (editId: string) => {
+    setIsProcessing(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+        body: {
+          action: 'revert_edit',
+          edit_id: editId
         }
-        
-        currentSection = {
-          title: headerMatch[2],
-          level: headerMatch[1].length,
-          startIndex: index
-        };
-        contentLines = [];
-      } else if (currentSection) {
-        contentLines.push(line);
+      });
+
+      if (error) {
+        console.error('Revert edit function error:', error);
+        throw new Error(`Revert failed: ${await describeFunctionError(error)}`);
       }
-    });
 
-    if (currentSection) {
-      parsedSections.push({
-        ...currentSection,
-        content: contentLines.join('\n').trim(),
-        endIndex: lines.length - 1
-      } as Section);
-    }
+      if (!data) {
+        throw new Error('No response from AI processing');
+      }
 
-    return parsedSections;
-  }, []);
+      setDocument(data.updated_content);
+      await reloadSections();
+      await loadEditHistory();
+      await loadVersions();
+
+      const reverted = (data.sections_reverted || []) as { title: string }[];
+      toast({
+        title: "AI edit reverted",
+        description: `Restored ${reverted.map(section => section.title).join(', ')}${describeSummaryCache(data.summary_cache)}`
+      });
+    } catch (error) {
+      console.error('Error reverting AI edit:', error);
+      toast({
+        title: "Revert failed",
+        description: error instanceof Error ? error.message : "Failed to revert the edit",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [reloadSections, loadEditHistory, loadVersions]);
 
   return {
     document,
+    documentId,
+    filename,
     sections,
     isProcessing,
     loadDocument,
+    openDocument,
     updateDocument,
-    processAIEdit
+    reviewEdit,
+    editProgress,
+    cancelAIEdit,
+    pendingEdit,
+    applyPendingEdit,
+    discardPendingEdit,
+    closePendingEdit,
+    editHistory,
+    revertEdit,
+    versions,
+    originalContent,
+    reloadSections
   };
 };
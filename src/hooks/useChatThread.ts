@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ChatRole, ChatThreadMessage, EditProgress, SectionRetrieval } from '@/types/brd';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeStreaming } from '@/lib/functionStream';
+import {
+  initialEditProgress,
+  isAbortError,
+  ProposedChangeRow,
+  reduceEditProgress,
+  toProposedChange
+} from '@/lib/aiEdits';
+
+type ChatMessageRow = Tables<'brd_chat_messages'> & {
+  ai_edits?: { proposed_changes: unknown; summary_of_changes: string[] | null } | null;
+};
+
+interface ChatTurnResponse {
+  messages: Tables<'brd_chat_messages'>[];
+  edit: {
+    edit_id: string;
+    changes: ProposedChangeRow[];
+    summary_of_changes: string[];
+  } | null;
+}
+
+const toChatMessage = (row: ChatMessageRow): ChatThreadMessage => ({
+  id: row.id,
+  role: row.role as ChatRole,
+  content: row.content,
+  createdAt: row.created_at,
+  editId: row.ai_edit_id ?? undefined,
+  changes: row.ai_edits
+    ? ((row.ai_edits.proposed_changes ?? []) as ProposedChangeRow[]).map(toProposedChange)
+    : undefined,
+  summaryOfChanges: row.ai_edits?.summary_of_changes ?? undefined,
+  retrieval: (row.retrieval as unknown as SectionRetrieval | null) ?? undefined
+});
+
+export const useChatThread = (documentId: string) => {
+  const [messages, setMessages] = useState<ChatThreadMessage[]>([]);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<EditProgress | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const loadMessages = useCallback(async () => {
+    if (!documentId) {
+      setMessages([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('brd_chat_messages')
+      .select('*, ai_edits(proposed_changes, summary_of_changes)')
+      .eq('document_id', documentId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading chat messages:', error);
+      return;
+    }
+
+    setMessages(data.map(toChatMessage));
+  }, [documentId]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  const sendMessage = useCallback(async (message: string): Promise<boolean> => {
+    if (!documentId || !message.trim()) return false;
+
+    const controller = new AbortController();
+    abort.current = controller;
+    let current = initialEditProgress('context');
+    setProgress(current);
+    setPendingMessage(message.trim());
+
+    try {
+      const data = await invokeStreaming<ChatTurnResponse>(
+        {
+          action: 'chat',
+          document_id: documentId,
+          message: message.trim()
+        },
+        controller.signal,
+        (event, payload) => {
+          current = reduceEditProgress(current, event, payload);
+          setProgress(current);
+        }
+      );
+
+      const saved = data.messages.map(row => toChatMessage({
+        ...row,
+        ai_edits: row.ai_edit_id && data.edit
+          ? { proposed_changes: data.edit.changes, summary_of_changes: data.edit.summary_of_changes }
+          : null
+      }));
+      setMessages(prev => [...prev, ...saved]);
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) return false;
+      console.error('Error sending chat message:', error);
+      toast({
+        title: "Assistant failed",
+        description: error instanceof Error ? error.message : "Failed to get a response",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      abort.current = null;
+      setProgress(null);
+      setPendingMessage(null);
+    }
+  }, [documentId]);
+
+  const cancelMessage = useCallback(() => {
+    abort.current?.abort();
+  }, []);
+
+  return {
+    messages,
+    pendingMessage,
+    progress,
+    isSending: pendingMessage !== null,
+    sendMessage,
+    cancelMessage
+  };
+};
@@ -0,0 +1,215 @@
+import { useState, useCallback, useEffect } from 'react';
+import { format } from 'date-fns';
+import { validateWorkspaceBundle } from '@shared/workspaceBundle';
+import { DocumentSummary } from '@/types/brd';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { describeFunctionError } from '@/lib/functionErrors';
+import { downloadBlob, exportBaseName } from '@/lib/export/download';
+
+export const useDocumentLibrary = () => {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('brd_documents')
+        .select('id, filename, created_at, updated_at, brd_sections(count), ai_edits(created_at, prompt)')
+        .order('updated_at', { ascending: false })
+        .order('created_at', { referencedTable: 'ai_edits', ascending: false })
+        .limit(1, { referencedTable: 'ai_edits' });
+
+      if (error) {
+        throw new Error(`Failed to load documents: ${error.message}`);
+      }
+
+      setDocuments(data.map(row => ({
+        id: row.id,
+        filename: row.filename,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        sectionCount: row.brd_sections[0]?.count ?? 0,
+        lastAIEditAt: row.ai_edits[0]?.created_at,
+        lastAIEditPrompt: row.ai_edits[0]?.prompt
+      })));
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      toast({
+        title: "Error loading documents",
+        description: error instanceof Error ? error.message : "Failed to load the document library",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const renameDocument = useCallback(async (id: string, filename: string) => {
+    const { error } = await supabase
+      .from('brd_documents')
+      .update({ filename })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error renaming document:', error);
+      toast({
+        title: "Rename failed",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    await loadDocuments();
+  }, [loadDocuments]);
+
+  const duplicateDocument = useCallback(async (id: string) => {
+    const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+      body: {
+        action: 'duplicate_document',
+        document_id: id
+      }
+    });
+
+    if (error || !data) {
+      console.error('Error duplicating document:', error);
+      toast({
+        title: "Duplicate failed",
+        description: error ? await describeFunctionError(error) : 'No response from server',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Document duplicated",
+      description: `Created ${data.filename}`
+    });
+    await loadDocuments();
+  }, [loadDocuments]);
+
+  const deleteDocument = useCallback(async (id: string) => {
+    // Sections, AI edits and versions are removed by cascading foreign keys.
+    const { error } = await supabase
+      .from('brd_documents')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting document:', error);
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setDocuments(prev => prev.filter(document => document.id !== id));
+  }, []);
+
+  // Downloads one document, or the whole library when none is given, as a
+  // workspace bundle
+  const exportWorkspace = useCallback(async (document?: DocumentSummary) => {
+    setIsTransferring(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+        body: {
+          action: 'export_workspace',
+          document_ids: document ? [document.id] : undefined
+        }
+      });
+
+      if (error || !data) {
+        throw new Error(error ? await describeFunctionError(error) : 'No response from server');
+      }
+
+      const filename = document
+        ? `${exportBaseName(document.filename)}.brd.json`
+        : `brd-workspace-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+      toast({
+        title: "Workspace exported",
+        description: `${data.brd_documents.length} document${data.brd_documents.length === 1 ? '' : 's'} saved to ${filename}`
+      });
+    } catch (error) {
+      console.error('Error exporting workspace:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the workspace",
+        variant: "destructive"
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  }, []);
+
+  // Recreates the documents in a workspace bundle under the signed-in user.
+  // The bundle is checked here first so a wrong file is reported without a
+  // round trip; the edge function validates it again.
+  const importWorkspace = useCallback(async (file: File) => {
+    setIsTransferring(true);
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file`);
+      }
+
+      const result = validateWorkspaceBundle(json);
+      if (result.success === false) {
+        console.error('Workspace bundle failed validation:', result.errors);
+        throw new Error(`${file.name} is not a valid BRD workspace: ${result.errors.slice(0, 3).join('; ')}`);
+      }
+
+      const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+        body: {
+          action: 'import_workspace',
+          bundle: result.data
+        }
+      });
+
+      if (error || !data) {
+        throw new Error(error ? await describeFunctionError(error) : 'No response from server');
+      }
+
+      const imported: { document_id: string; filename: string }[] = data.documents;
+      toast({
+        title: "Workspace imported",
+        description: imported.length === 1
+          ? `Imported ${imported[0].filename}`
+          : `Imported ${imported.length} documents`
+      });
+      await loadDocuments();
+    } catch (error) {
+      console.error('Error importing workspace:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not import the workspace",
+        variant: "destructive"
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  }, [loadDocuments]);
+
+  return {
+    documents,
+    isLoading,
+    isTransferring,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    exportWorkspace,
+    importWorkspace
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DocumentAnswer, SectionRetrieval } from '@/types/brd';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { describeFunctionError } from '@/lib/functionErrors';
+
+interface AskResponse {
+  answer: string;
+  citations: {
+    section_id: string;
+    title: string;
+    path: string;
+    quote: string;
+    start: number | null;
+    end: number | null;
+  }[];
+  retrieval: SectionRetrieval;
+}
+
+// Questions are read-only and not persisted; answers live for the session.
+export const useDocumentQA = (documentId: string) => {
+  const [answers, setAnswers] = useState<DocumentAnswer[]>([]);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAnswers([]);
+  }, [documentId]);
+
+  const ask = useCallback(async (question: string): Promise<boolean> => {
+    if (!documentId || !question.trim()) return false;
+
+    setPendingQuestion(question.trim());
+
+    try {
+      const { data, error } = await supabase.functions.invoke<AskResponse>('ai-brd-processor', {
+        body: {
+          action: 'ask',
+          document_id: documentId,
+          question: question.trim()
+        }
+      });
+
+      if (error || !data) {
+        throw new Error(error ? await describeFunctionError(error) : 'No response from server');
+      }
+
+      setAnswers(prev => [...prev, {
+        id: crypto.randomUUID(),
+        question: question.trim(),
+        answer: data.answer,
+        citations: data.citations.map(citation => ({
+          sectionId: citation.section_id,
+          title: citation.title,
+          path: citation.path,
+          quote: citation.quote,
+          range: citation.start !== null && citation.end !== null
+            ? { start: citation.start, end: citation.end }
+            : null
+        })),
+        retrieval: data.retrieval
+      }]);
+      return true;
+    } catch (error) {
+      console.error('Error asking question:', error);
+      toast({
+        title: "Question failed",
+        description: error instanceof Error ? error.message : "Failed to answer the question",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setPendingQuestion(null);
+    }
+  }, [documentId]);
+
+  return {
+    answers,
+    pendingQuestion,
+    isAsking: pendingQuestion !== null,
+    ask
+  };
+};
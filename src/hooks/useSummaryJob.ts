@@ -0,0 +1,160 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ProcessingJob, ProcessingJobStatus, SummaryCacheStats } from '@/types/brd';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { describeFunctionError } from '@/lib/functionErrors';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Matches the edge function's threshold for treating a running job as abandoned
+const STALLED_AFTER_MS = 2 * 60 * 1000;
+
+interface JobProgressResponse {
+  id: string;
+  document_id: string;
+  status: ProcessingJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  summary_cache: SummaryCacheStats;
+}
+
+const toProcessingJob = (data: JobProgressResponse): ProcessingJob => ({
+  id: data.id,
+  documentId: data.document_id,
+  status: data.status,
+  total: data.total,
+  completed: data.completed,
+  failed: data.failed,
+  summaryCache: data.summary_cache
+});
+
+const isActive = (job: ProcessingJob | null) =>
+  job?.status === 'queued' || job?.status === 'running';
+
+// Tracks the latest summarization job of a document by polling the
+// `job_status` action while it runs. `onProgress` is called whenever more
+// sections have been summarized so the caller can reload them.
+export const useSummaryJob = (documentId: string, onProgress: () => void) => {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+  const [isStalled, setIsStalled] = useState(false);
+  const jobRef = useRef<ProcessingJob | null>(null);
+  const lastProgressAt = useRef(0);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+
+  const fetchJob = useCallback(async (jobId: string) => {
+    const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+      body: {
+        action: 'job_status',
+        job_id: jobId
+      }
+    });
+
+    if (error || !data) {
+      console.error('Error loading job status:', error);
+      return;
+    }
+
+    const next = toProcessingJob(data);
+    const previous = jobRef.current;
+    const sameJob = previous?.id === next.id;
+    jobRef.current = next;
+    setJob(next);
+
+    if (!sameJob || next.completed + next.failed > previous.completed + previous.failed) {
+      lastProgressAt.current = Date.now();
+      setIsStalled(false);
+      if (sameJob) onProgressRef.current();
+    } else if (isActive(next) && Date.now() - lastProgressAt.current > STALLED_AFTER_MS) {
+      setIsStalled(true);
+    }
+
+    if (sameJob && isActive(previous) && next.status === 'completed') {
+      const { hits, misses } = next.summaryCache;
+      toast({
+        title: "Summaries ready",
+        description: `Summarized ${next.total} sections (${hits} reused, ${misses} generated)`
+      });
+    } else if (sameJob && isActive(previous) && next.status === 'failed') {
+      toast({
+        title: "Some summaries failed",
+        description: `${next.failed} of ${next.total} sections could not be summarized`,
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    jobRef.current = null;
+    setJob(null);
+    setIsStalled(false);
+    if (!documentId) return;
+
+    let cancelled = false;
+    const loadLatestJob = async () => {
+      const { data, error } = await supabase
+        .from('brd_processing_jobs')
+        .select('id')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading processing job:', error);
+        return;
+      }
+      if (data && !cancelled) {
+        await fetchJob(data.id);
+      }
+    };
+
+    loadLatestJob();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, fetchJob]);
+
+  const jobId = job?.id;
+  const active = isActive(job);
+  useEffect(() => {
+    if (!jobId || !active) return;
+
+    const timer = setInterval(() => fetchJob(jobId), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, active, fetchJob]);
+
+  const resumeJob = useCallback(async () => {
+    if (!job) return;
+
+    const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+      body: {
+        action: 'resume_job',
+        job_id: job.id
+      }
+    });
+
+    if (error || !data) {
+      console.error('Error resuming job:', error);
+      toast({
+        title: "Could not resume",
+        description: error ? await describeFunctionError(error) : 'No response from server',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const resumed = toProcessingJob(data);
+    jobRef.current = resumed;
+    lastProgressAt.current = Date.now();
+    setJob(resumed);
+    setIsStalled(false);
+  }, [job]);
+
+  return {
+    job,
+    isStalled,
+    resumeJob
+  };
+};
@@ -0,0 +1,78 @@
+import { useState, useCallback, useEffect } from 'react';
+import { subDays, formatISO } from 'date-fns';
+import { UsageDay, UsageLimits } from '@/types/brd';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { describeFunctionError } from '@/lib/functionErrors';
+
+export const useUsageReport = (days: number) => {
+  const [usage, setUsage] = useState<UsageDay[]>([]);
+  const [limits, setLimits] = useState<UsageLimits | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('llm_usage_daily')
+        .select('*')
+        .gte('day', formatISO(subDays(new Date(), days - 1), { representation: 'date' }))
+        .order('day');
+
+      if (error) {
+        throw new Error(`Failed to load usage: ${error.message}`);
+      }
+
+      setUsage(data.map(row => ({
+        day: row.day ?? '',
+        documentId: row.document_id,
+        filename: row.filename,
+        action: row.action ?? 'unknown',
+        model: row.model ?? 'unknown',
+        calls: row.calls ?? 0,
+        promptTokens: row.prompt_tokens ?? 0,
+        completionTokens: row.completion_tokens ?? 0,
+        costUsd: row.cost_usd ?? 0
+      })));
+
+      const { data: limitData, error: limitError } = await supabase.functions.invoke('ai-brd-processor', {
+        body: { action: 'usage_limits' }
+      });
+
+      if (limitError || !limitData) {
+        throw new Error(limitError ? await describeFunctionError(limitError) : 'No response from server');
+      }
+
+      setLimits({
+        periodStart: limitData.period_start,
+        limits: {
+          total: limitData.limits.total,
+          perDocument: limitData.limits.per_document,
+          perUser: limitData.limits.per_user
+        },
+        spent: limitData.spent
+      });
+    } catch (error) {
+      console.error('Error loading usage:', error);
+      toast({
+        title: "Error loading usage",
+        description: error instanceof Error ? error.message : "Failed to load LLM usage",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return {
+    usage,
+    limits,
+    isLoading,
+    reload: loadUsage
+  };
+};
@@ -14,24 +14,42 @@ export type Database = {
           created_at: string
           document_id: string
           id: string
+          owner_id: string | null
           prompt: string
+          proposed_changes: Json
+          retrieval: Json | null
+          reverted_at: string | null
+          section_changes: Json
           sections_updated: Json
+          status: string
           summary_of_changes: string[] | null
         }
         Insert: {
           created_at?: string
           document_id: string
           id?: string
+          owner_id?: string | null
           prompt: string
+          proposed_changes?: Json
+          retrieval?: Json | null
+          reverted_at?: string | null
+          section_changes?: Json
           sections_updated: Json
+          status?: string
           summary_of_changes?: string[] | null
         }
         Update: {
           created_at?: string
           document_id?: string
           id?: string
+          owner_id?: string | null
           prompt?: string
+          proposed_changes?: Json
+          retrieval?: Json | null
+          reverted_at?: string | null
+          section_changes?: Json
           sections_updated?: Json
+          status?: string
           summary_of_changes?: string[] | null
         }
         Relationships: [
@@ -44,6 +62,102 @@ export type Database = {
           },
         ]
       }
+      brd_chat_messages: {
+        Row: {
+          ai_edit_id: string | null
+          content: string
+          created_at: string
+          document_id: string
+          id: string
+          retrieval: Json | null
+          role: string
+        }
+        Insert: {
+          ai_edit_id?: string | null
+          content: string
+          created_at?: string
+          document_id: string
+          id?: string
+          retrieval?: Json | null
+          role: string
+        }
+        Update: {
+          ai_edit_id?: string | null
+          content?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          retrieval?: Json | null
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brd_chat_messages_ai_edit_id_fkey"
+            columns: ["ai_edit_id"]
+            isOneToOne: false
+            referencedRelation: "ai_edits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brd_chat_messages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "brd_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brd_document_versions: {
+        Row: {
+          ai_edit_id: string | null
+          author: string | null
+          content: string
+          created_at: string
+          document_id: string
+          id: string
+          message: string | null
+          source: string
+          version_number: number
+        }
+        Insert: {
+          ai_edit_id?: string | null
+          author?: string | null
+          content: string
+          created_at?: string
+          document_id: string
+          id?: string
+          message?: string | null
+          source: string
+          version_number?: number
+        }
+        Update: {
+          ai_edit_id?: string | null
+          author?: string | null
+          content?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          message?: string | null
+          source?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brd_document_versions_ai_edit_id_fkey"
+            columns: ["ai_edit_id"]
+            isOneToOne: false
+            referencedRelation: "ai_edits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brd_document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "brd_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       brd_documents: {
         Row: {
           created_at: string
@@ -51,6 +165,7 @@ export type Database = {
           filename: string
           id: string
           original_content: string
+          owner_id: string | null
           updated_at: string
         }
         Insert: {
@@ -59,6 +174,7 @@ export type Database = {
           filename: string
           id?: string
           original_content: string
+          owner_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -67,10 +183,132 @@ export type Database = {
           filename?: string
           id?: string
           original_content?: string
+          owner_id?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      brd_processing_job_items: {
+        Row: {
+          attempts: number
+          error: string | null
+          id: string
+          job_id: string
+          section_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          error?: string | null
+          id?: string
+          job_id: string
+          section_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          error?: string | null
+          id?: string
+          job_id?: string
+          section_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brd_processing_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "brd_processing_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brd_processing_job_items_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "brd_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brd_processing_jobs: {
+        Row: {
+          cache_hits: number
+          completed_items: number
+          created_at: string
+          document_id: string
+          failed_items: number
+          id: string
+          status: string
+          total_items: number
+          updated_at: string
+        }
+        Insert: {
+          cache_hits?: number
+          completed_items?: number
+          created_at?: string
+          document_id: string
+          failed_items?: number
+          id?: string
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Update: {
+          cache_hits?: number
+          completed_items?: number
+          created_at?: string
+          document_id?: string
+          failed_items?: number
+          id?: string
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brd_processing_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "brd_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brd_section_embeddings: {
+        Row: {
+          content_hash: string
+          embedding: number[]
+          model: string
+          section_id: string
+          updated_at: string
+        }
+        Insert: {
+          content_hash: string
+          embedding: number[]
+          model: string
+          section_id: string
+          updated_at?: string
+        }
+        Update: {
+          content_hash?: string
+          embedding?: number[]
+          model?: string
+          section_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brd_section_embeddings_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: true
+            referencedRelation: "brd_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       brd_sections: {
         Row: {
           content: string
@@ -79,6 +317,10 @@ export type Database = {
           end_index: number | null
           id: string
           level: number
+          owner_id: string | null
+          parent_id: string | null
+          path: string
+          position: number
           start_index: number | null
           summary: string | null
           title: string
@@ -91,6 +333,10 @@ export type Database = {
           end_index?: number | null
           id?: string
           level: number
+          owner_id?: string | null
+          parent_id: string | null
+          path: string
+          position: number
           start_index?: number | null
           summary?: string | null
           title: string
@@ -103,6 +349,10 @@ export type Database = {
           end_index?: number | null
           id?: string
           level?: number
+          owner_id?: string | null
+          parent_id?: string | null
+          path?: string
+          position?: number
           start_index?: number | null
           summary?: string | null
           title?: string
@@ -116,14 +366,174 @@ export type Database = {
             referencedRelation: "brd_documents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "brd_sections_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "brd_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brd_summary_cache: {
+        Row: {
+          content_hash: string
+          created_at: string
+          model: string
+          owner_id: string
+          summary: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          model: string
+          owner_id?: string
+          summary: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          model?: string
+          owner_id?: string
+          summary?: string
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          action: string
+          attempts: number
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          document_id: string | null
+          estimated: boolean
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          status: string
+          task: string
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          attempts?: number
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          document_id?: string | null
+          estimated?: boolean
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          provider: string
+          status: string
+          task: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          attempts?: number
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          document_id?: string | null
+          estimated?: boolean
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          status?: string
+          task?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_usage_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "brd_documents"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      llm_usage_daily: {
+        Row: {
+          action: string | null
+          calls: number | null
+          completion_tokens: number | null
+          cost_usd: number | null
+          day: string | null
+          document_id: string | null
+          filename: string | null
+          model: string | null
+          prompt_tokens: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_usage_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "brd_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_brd_job_items: {
+        Args: {
+          p_job_id: string
+          p_limit: number
+        }
+        Returns: {
+          attempts: number
+          error: string | null
+          id: string
+          job_id: string
+          section_id: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      finish_brd_job_item: {
+        Args: {
+          p_cache_hit?: boolean
+          p_error?: string
+          p_item_id: string
+          p_status: string
+        }
+        Returns: undefined
+      }
+      llm_spend_since: {
+        Args: {
+          p_document_id?: string
+          p_since: string
+          p_user_id?: string
+        }
+        Returns: number
+      }
+      requeue_brd_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      save_brd_section_tree: {
+        Args: {
+          p_base_content: string
+          p_content: string
+          p_document_id: string
+          p_sections: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,60 @@
+import { EditProgress, EditStage, ProposedChangeKind, ProposedSectionChange, SectionRetrieval } from '@/types/brd';
+
+// Row shapes and helpers shared by the hooks that propose and apply AI edits.
+
+export interface ProposedChangeRow {
+  id: string;
+  kind: ProposedChangeKind;
+  section_id: string;
+  title: string;
+  path: string;
+  reasoning: string;
+  description: string;
+  original_content: string;
+  proposed_content: string;
+}
+
+export const toProposedChange = (row: ProposedChangeRow): ProposedSectionChange => ({
+  id: row.id,
+  kind: row.kind,
+  sectionId: row.section_id,
+  title: row.title,
+  path: row.path,
+  reasoning: row.reasoning,
+  description: row.description,
+  originalContent: row.original_content,
+  proposedContent: row.proposed_content
+});
+
+// Folds one streamed progress event into the progress shown in the UI
+export const reduceEditProgress = (progress: EditProgress, event: string, data: unknown): EditProgress => {
+  switch (event) {
+    case 'stage': {
+      const { stage, message } = data as { stage: EditStage; message: string };
+      // A new drafting round (repair attempt) starts from scratch
+      return stage === 'drafting' ? { ...progress, stage, message, drafts: [] } : { ...progress, stage, message };
+    }
+    case 'retrieval':
+      return { ...progress, retrieval: data as SectionRetrieval };
+    case 'selection':
+      return { ...progress, selectedSections: (data as { sections: EditProgress['selectedSections'] }).sections };
+    case 'draft': {
+      const draft = data as { index: number; section_id: string; title: string; content: string };
+      const drafts = [...progress.drafts];
+      drafts[draft.index] = { sectionId: draft.section_id, title: draft.title, content: draft.content };
+      return { ...progress, drafts };
+    }
+    default:
+      return progress;
+  }
+};
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export const initialEditProgress = (stage: EditStage): EditProgress => ({
+  stage,
+  message: 'Starting',
+  retrieval: null,
+  selectedSections: [],
+  drafts: []
+});
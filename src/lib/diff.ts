@@ -0,0 +1,123 @@
+import { parseMarkdownSections } from '@shared/markdown';
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Line diff based on the longest common subsequence. BRDs run to a few
+// thousand lines at most, so the O(n*m) table is not a concern.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: 'removed', text: a[i++] });
+    } else {
+      result.push({ op: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ op: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ op: 'added', text: b[j++] });
+
+  return result;
+}
+
+// Pairs removed and added runs so a replaced line sits next to its replacement.
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.op === 'removed') {
+      removed.push(line);
+    } else if (line.op === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export type SectionDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionDiffEntry {
+  title: string;
+  level: number;
+  status: SectionDiffStatus;
+  before?: string;
+  after?: string;
+}
+
+// Compares two documents section by section. Sections are matched on title
+// and level in document order, so a renamed section shows up as removed + added.
+export function diffSections(before: string, after: string): SectionDiffEntry[] {
+  const oldSections = parseMarkdownSections(before);
+  const newSections = parseMarkdownSections(after);
+  const matched = new Set<number>();
+  const entries: SectionDiffEntry[] = [];
+
+  for (const section of newSections) {
+    const index = oldSections.findIndex(
+      (old, i) => !matched.has(i) && old.title === section.title && old.level === section.level
+    );
+
+    if (index === -1) {
+      entries.push({ title: section.title, level: section.level, status: 'added', after: section.content });
+      continue;
+    }
+
+    matched.add(index);
+    const old = oldSections[index];
+    entries.push({
+      title: section.title,
+      level: section.level,
+      status: old.content === section.content ? 'unchanged' : 'modified',
+      before: old.content,
+      after: section.content
+    });
+  }
+
+  oldSections.forEach((old, index) => {
+    if (!matched.has(index)) {
+      entries.push({ title: old.title, level: old.level, status: 'removed', before: old.content });
+    }
+  });
+
+  return entries;
+}
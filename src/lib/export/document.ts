@@ -0,0 +1,39 @@
+import { Section } from '@/types/brd';
+
+// What every exporter needs besides the Markdown itself: the cover page
+// details and, optionally, the sections whose summaries make an appendix.
+
+export interface ExportOptions {
+  title: string;
+  version: string;
+  date: string;
+  authors: string[];
+  // Sections whose summaries are listed in an appendix; omit for no appendix
+  summaries?: Section[];
+}
+
+export const APPENDIX_TITLE = 'Appendix: Section Summaries';
+
+export const ALERT_LABELS: Record<string, string> = {
+  NOTE: 'Note',
+  TIP: 'Tip',
+  IMPORTANT: 'Important',
+  WARNING: 'Warning',
+  CAUTION: 'Caution'
+};
+
+// Manual numbers in titles ("2.1 Scope") would repeat the automatic ones
+export function stripManualNumber(title: string): string {
+  return title.replace(/^\d+(\.\d+)*\.?\s+/, '');
+}
+
+// Heading level for a section path, capped at the six levels both HTML and
+// Word have
+export function headingDepth(path: string): number {
+  return Math.min(path.split('.').length, 6);
+}
+
+// Sections that have a summary to list in the appendix, in document order
+export function summarisedSections(sections: Section[]): Section[] {
+  return sections.filter(section => section.level > 0 && section.summary);
+}
@@ -0,0 +1,416 @@
+import { parseMarkdownSections } from '@shared/markdown';
+import { buildSectionTree } from '@shared/sectionTree';
+import { InlineSpan } from '@/lib/import/markdownWriter';
+import { writeZip } from '@/lib/zip';
+import { Section } from '@/types/brd';
+import { ALERT_LABELS, APPENDIX_TITLE, ExportOptions, headingDepth, stripManualNumber, summarisedSections } from './document';
+import { ListItem, MarkdownNode, parseBlocks } from './markdownBlocks';
+
+// Writes a BRD as a Word document. Sections map to Heading 1-6 by their depth
+// in the section tree, and the heading styles carry a multilevel list so Word
+// numbers them (1, 1.1, 1.1.1) the same way section paths do. The document
+// opens with a cover page and a table of contents field that Word refreshes
+// on open; an appendix can list each section's summary.
+
+const MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NS = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+].join(' ');
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Numbering instances: headings and bullets are shared, every ordered list
+// gets its own instance so its numbering restarts
+const HEADING_NUMBERING = 1;
+const BULLET_NUMBERING = 2;
+const FIRST_ORDERED_NUMBERING = 3;
+
+const CHECKBOX = { checked: '☒ ', unchecked: '☐ ' };
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+function isXmlCharacter(c: string): boolean {
+  const code = c.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return [...text].filter(isXmlCharacter).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface WriterState {
+  // URL -> relationship id
+  links: Map<string, string>;
+  // One entry per ordered list: its nesting level and start number
+  orderedLists: { level: number; start: number }[];
+}
+
+function paragraph(properties: string, runs: string): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function textRun(text: string, properties = ''): string {
+  const pieces = text.split('\n').map(piece =>
+    piece.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>')
+  );
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${pieces.join('<w:br/>')}</w:r>`;
+}
+
+function renderRuns(state: WriterState, spans: InlineSpan[], extraProperties = ''): string {
+  return spans
+    .map(span => {
+      const style = span.href ? '<w:rStyle w:val="Hyperlink"/>' : span.code ? '<w:rStyle w:val="CodeChar"/>' : '';
+      const properties = [
+        style,
+        span.bold ? '<w:b/>' : '',
+        span.italic ? '<w:i/>' : '',
+        span.strike ? '<w:strike/>' : '',
+        extraProperties
+      ].join('');
+      const run = textRun(span.text, properties);
+
+      if (!span.href || span.href.startsWith('#')) return run;
+      let id = state.links.get(span.href);
+      if (!id) {
+        id = `rIdLink${state.links.size + 1}`;
+        state.links.set(span.href, id);
+      }
+      return `<w:hyperlink r:id="${id}" w:history="1">${run}</w:hyperlink>`;
+    })
+    .join('');
+}
+
+function renderList(state: WriterState, list: Extract<MarkdownNode, { kind: 'list' }>, depth: number, style: string): string {
+  const level = Math.min(depth, 8);
+  let numId = BULLET_NUMBERING;
+  if (list.ordered) {
+    state.orderedLists.push({ level, start: list.start });
+    numId = FIRST_ORDERED_NUMBERING + state.orderedLists.length - 1;
+  }
+
+  return list.items.map((item: ListItem) => {
+    const checkbox = item.checked === null ? '' : textRun(item.checked ? CHECKBOX.checked : CHECKBOX.unchecked);
+    const head = paragraph(
+      `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`,
+      checkbox + renderRuns(state, item.spans)
+    );
+    const children = item.children.map(child =>
+      child.kind === 'list'
+        ? renderList(state, child, depth + 1, style)
+        // Further paragraphs of the item line up with its text
+        : renderNode(state, child, `<w:ind w:left="${720 * (level + 1)}"/>`, style)
+    );
+    return head + children.join('');
+  }).join('');
+}
+
+function renderTable(state: WriterState, table: Extract<MarkdownNode, { kind: 'table' }>): string {
+  const columns = table.header.length;
+  const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${Math.floor(9000 / columns)}"/>`).join('');
+
+  const cell = (spans: InlineSpan[], column: number, header: boolean) => {
+    const align = table.align[column];
+    const justification = align ? `<w:jc w:val="${align === 'center' ? 'center' : align === 'right' ? 'right' : 'left'}"/>` : '';
+    const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="D9E2F3"/>' : '';
+    return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/>${shading}</w:tcPr>`
+      + paragraph(`<w:pStyle w:val="TableText"/>${justification}`, renderRuns(state, spans, header ? '<w:b/>' : ''))
+      + '</w:tc>';
+  };
+
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${table.header.map((spans, i) => cell(spans, i, true)).join('')}</w:tr>`;
+  const rows = table.rows.map(row => `<w:tr>${row.map((spans, i) => cell(spans, i, false)).join('')}</w:tr>`).join('');
+
+  return '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>'
+    + `<w:tblGrid>${grid}</w:tblGrid>${header}${rows}</w:tbl>`
+    // Word merges adjacent tables and needs a paragraph after a table
+    + paragraph('', '');
+}
+
+// `properties` are extra paragraph properties (indentation inside list
+// items); `style` is the paragraph style for body text (Quote inside quotes)
+function renderNode(state: WriterState, node: MarkdownNode, properties = '', style = 'Normal'): string {
+  const pStyle = style === 'Normal' ? '' : `<w:pStyle w:val="${style}"/>`;
+
+  switch (node.kind) {
+    case 'paragraph':
+      return paragraph(pStyle + properties, renderRuns(state, node.spans));
+    case 'list':
+      return renderList(state, node, 0, style);
+    case 'table':
+      return renderTable(state, node);
+    case 'code':
+      return node.text.split('\n').map(line => paragraph(`<w:pStyle w:val="Code"/>${properties}`, textRun(line))).join('');
+    case 'quote': {
+      const label = node.alert
+        ? paragraph(`<w:pStyle w:val="Quote"/>${properties}`, textRun(ALERT_LABELS[node.alert] ?? node.alert, '<w:b/>'))
+        : '';
+      return label + node.children.map(child => renderNode(state, child, properties, 'Quote')).join('');
+    }
+    case 'rule':
+      return paragraph('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>', '');
+    case 'html': {
+      // Only the text of raw HTML survives; <summary> lines become bold labels
+      return node.text.split('\n').map(line => {
+        const summary = line.match(/<summary>(.*?)<\/summary>/i);
+        const text = (summary ? summary[1] : line).replace(/<[^>]+>/g, '').trim();
+        return text ? paragraph(pStyle + properties, textRun(text, summary ? '<w:b/>' : '')) : '';
+      }).join('');
+    }
+  }
+}
+
+function pageBreak(): string {
+  return paragraph('', '<w:r><w:br w:type="page"/></w:r>');
+}
+
+function renderCoverPage(options: ExportOptions): string {
+  const field = (label: string, value: string) =>
+    value ? paragraph('<w:pStyle w:val="CoverDetail"/>', textRun(`${label}: `, '<w:b/>') + textRun(value)) : '';
+
+  return paragraph('<w:pStyle w:val="Title"/>', textRun(options.title))
+    + paragraph('<w:pStyle w:val="Subtitle"/>', textRun('Business Requirements Document'))
+    + field('Version', options.version)
+    + field('Date', options.date)
+    + field(options.authors.length > 1 ? 'Authors' : 'Author', options.authors.join(', '))
+    + pageBreak();
+}
+
+// A TOC field pre-filled with the headings (without page numbers), so the
+// contents read sensibly even before Word updates the field
+function renderTableOfContents(headings: { depth: number; path: string; title: string }[]): string {
+  const entries = headings.map(heading =>
+    paragraph(`<w:pStyle w:val="TOC${heading.depth}"/>`, textRun(`${heading.path}\t${heading.title}`))
+  );
+  const begin = '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>'
+    + '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-6" \\h \\z \\u </w:instrText></w:r>'
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  const end = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+  // The field spans paragraphs: it opens in the first entry and closes in the last
+  const body = entries.length > 0
+    ? entries.map((entry, i) => {
+      let result = entry;
+      if (i === 0) result = result.replace(/(<w:p>(?:<w:pPr>.*?<\/w:pPr>)?)/, `$1${begin}`);
+      if (i === entries.length - 1) result = result.replace(/<\/w:p>$/, `${end}</w:p>`);
+      return result;
+    }).join('')
+    : paragraph('', begin + textRun('Update this field to build the table of contents.') + end);
+
+  return paragraph('<w:pStyle w:val="TOCHeading"/>', textRun('Table of Contents')) + body + pageBreak();
+}
+
+function renderAppendix(state: WriterState, sections: Section[]): string {
+  const summarised = summarisedSections(sections);
+  if (summarised.length === 0) return '';
+
+  return pageBreak()
+    // Listed in the table of contents but kept out of the section numbering
+    + paragraph('<w:pStyle w:val="Heading1"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="0"/></w:numPr>', textRun(APPENDIX_TITLE))
+    + summarised.map(section =>
+      paragraph('<w:keepNext/>', textRun(`${section.path} ${stripManualNumber(section.title)}`, '<w:b/>'))
+      + paragraph('', renderRuns(state, [{ text: section.summary ?? '' }]))
+    ).join('');
+}
+
+function headingStyles(): string {
+  const sizes = [32, 28, 26, 24, 22, 22];
+  return sizes.map((size, i) => `
+  <w:style w:type="paragraph" w:styleId="Heading${i + 1}">
+    <w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:keepLines/><w:numPr><w:ilvl w:val="${i}"/><w:numId w:val="${HEADING_NUMBERING}"/></w:numPr><w:spacing w:before="${i === 0 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr>
+    <w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="TOC${i + 1}">
+    <w:name w:val="toc ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>
+    <w:pPr><w:tabs><w:tab w:val="left" w:pos="${440 * (i + 1) + 440}"/><w:tab w:val="right" w:leader="dot" w:pos="9350"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="${220 * i}"/></w:pPr>
+  </w:style>`).join('');
+}
+
+function stylesXml(): string {
+  return `${XML_DECLARATION}<w:styles ${NS}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Subtitle"/><w:qFormat/>
+    <w:pPr><w:spacing w:before="2400" w:after="240"/></w:pPr>
+    <w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="56"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle">
+    <w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="960"/></w:pPr>
+    <w:rPr><w:color w:val="595959"/><w:sz w:val="32"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="CoverDetail">
+    <w:name w:val="Cover Detail"/><w:basedOn w:val="Normal"/>
+    <w:rPr><w:sz w:val="24"/></w:rPr>
+  </w:style>${headingStyles()}
+  <w:style w:type="paragraph" w:styleId="TOCHeading">
+    <w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>
+    <w:pPr><w:spacing w:after="240"/></w:pPr>
+    <w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="32"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph">
+    <w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="8EAADB"/></w:pBdr><w:ind w:left="360"/></w:pPr>
+    <w:rPr><w:i/><w:color w:val="404040"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Code">
+    <w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="TableText">
+    <w:name w:val="Table Text"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:before="40" w:after="40"/></w:pPr>
+  </w:style>
+  <w:style w:type="character" w:styleId="Hyperlink">
+    <w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr>
+  </w:style>
+  <w:style w:type="character" w:styleId="CodeChar">
+    <w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:rPr>
+  </w:style>
+  <w:style w:type="table" w:styleId="TableGrid">
+    <w:name w:val="Table Grid"/>
+    <w:tblPr><w:tblBorders>
+      <w:top w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/><w:left w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/>
+      <w:bottom w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/><w:right w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/>
+      <w:insideH w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/>
+    </w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr>
+  </w:style>
+</w:styles>`;
+}
+
+function numberingLevels(format: (level: number) => string): string {
+  return Array.from({ length: 9 }, (_, level) => `<w:lvl w:ilvl="${level}">${format(level)}</w:lvl>`).join('');
+}
+
+function numberingXml(orderedLists: WriterState['orderedLists']): string {
+  const headings = numberingLevels(level => {
+    const text = Array.from({ length: level + 1 }, (_, i) => `%${i + 1}`).join('.');
+    return `<w:start w:val="1"/><w:numFmt w:val="decimal"/><w:pStyle w:val="Heading${level + 1}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>`
+      + `<w:pPr><w:ind w:left="${level < 6 ? 432 + level * 144 : 0}" w:hanging="${level < 6 ? 432 + level * 144 : 0}"/></w:pPr>`;
+  });
+  const bulletGlyphs = ['•', '◦', '▪'];
+  const bullets = numberingLevels(level =>
+    `<w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${bulletGlyphs[level % 3]}"/><w:lvlJc w:val="left"/>`
+    + `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>`
+  );
+  const orderedFormats = ['decimal', 'lowerLetter', 'lowerRoman'];
+  const ordered = numberingLevels(level =>
+    `<w:start w:val="1"/><w:numFmt w:val="${orderedFormats[level % 3]}"/><w:lvlText w:val="%${level + 1}."/><w:lvlJc w:val="left"/>`
+    + `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>`
+  );
+
+  const orderedInstances = orderedLists.map(({ level, start }, i) =>
+    `<w:num w:numId="${FIRST_ORDERED_NUMBERING + i}"><w:abstractNumId w:val="2"/>`
+    + `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+  ).join('');
+
+  return `${XML_DECLARATION}<w:numbering ${NS}>`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="multilevel"/>${headings}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${bullets}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="2"><w:multiLevelType w:val="hybridMultilevel"/>${ordered}</w:abstractNum>`
+    + `<w:num w:numId="${HEADING_NUMBERING}"><w:abstractNumId w:val="0"/></w:num>`
+    + `<w:num w:numId="${BULLET_NUMBERING}"><w:abstractNumId w:val="1"/></w:num>`
+    + `${orderedInstances}</w:numbering>`;
+}
+
+function documentRelationshipsXml(links: Map<string, string>): string {
+  const hyperlinks = Array.from(links, ([url, id]) =>
+    `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`
+  ).join('');
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>'
+    + '<Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>'
+    + `${hyperlinks}</Relationships>`;
+}
+
+function packageFiles(options: ExportOptions) {
+  const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+    + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+
+  const rootRelationships = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+
+  // Asks Word to refresh fields, which fills in the table of contents page numbers
+  const settings = `${XML_DECLARATION}<w:settings ${NS}><w:updateFields w:val="true"/></w:settings>`;
+
+  const core = `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" `
+    + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(options.title)}</dc:title>`
+    + `<dc:creator>${escapeXml(options.authors.join('; '))}</dc:creator>`
+    + `<cp:version>${escapeXml(options.version)}</cp:version>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+  return { contentTypes, rootRelationships, settings, core };
+}
+
+export async function exportDocx(content: string, options: ExportOptions): Promise<Blob> {
+  const state: WriterState = { links: new Map(), orderedLists: [] };
+  const tree = buildSectionTree(parseMarkdownSections(content));
+
+  const headings = tree
+    .filter(section => section.level > 0)
+    .map(section => ({
+      depth: headingDepth(section.path),
+      path: section.path,
+      title: stripManualNumber(section.title)
+    }));
+
+  const body = tree.map(section => {
+    const nodes = parseBlocks(section.content).map(node => renderNode(state, node)).join('');
+    if (section.level === 0) return nodes;
+
+    return paragraph(`<w:pStyle w:val="Heading${headingDepth(section.path)}"/>`, textRun(stripManualNumber(section.title))) + nodes;
+  }).join('');
+
+  const appendix = options.summaries ? renderAppendix(state, options.summaries) : '';
+
+  // A4 with one-inch margins
+  const sectionProperties = '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>'
+    + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/>'
+    + '</w:sectPr>';
+
+  const document = `${XML_DECLARATION}<w:document ${NS}><w:body>`
+    + renderCoverPage(options)
+    + renderTableOfContents(headings)
+    + body
+    + appendix
+    + `${sectionProperties}</w:body></w:document>`;
+
+  const files = packageFiles(options);
+  const zip = await writeZip([
+    { name: '[Content_Types].xml', data: files.contentTypes },
+    { name: '_rels/.rels', data: files.rootRelationships },
+    { name: 'docProps/core.xml', data: files.core },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: stylesXml() },
+    { name: 'word/numbering.xml', data: numberingXml(state.orderedLists) },
+    { name: 'word/settings.xml', data: files.settings },
+    { name: 'word/_rels/document.xml.rels', data: documentRelationshipsXml(state.links) }
+  ]);
+  return new Blob([zip], { type: MIME_TYPE });
+}
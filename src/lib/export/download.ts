@@ -0,0 +1,40 @@
+// Saves a generated file through a temporary link
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// The uploaded file's name without its extension, for naming exports
+export function exportBaseName(filename: string | undefined): string {
+  const base = (filename ?? '').replace(/\.[^.]+$/, '').trim();
+  return base || 'brd-document';
+}
+
+// Opens the browser's print dialog for a generated HTML document, where it
+// can be saved as PDF. The document is loaded into a hidden frame so no
+// popup is needed.
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    // The frame has to stay until printing is done; browsers fire
+    // afterprint once the dialog closes
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
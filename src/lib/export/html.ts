@@ -0,0 +1,322 @@
+import { parseMarkdownSections } from '@shared/markdown';
+import { buildSectionTree } from '@shared/sectionTree';
+import { InlineSpan } from '@/lib/import/markdownWriter';
+import { Section } from '@/types/brd';
+import {
+  ALERT_LABELS,
+  APPENDIX_TITLE,
+  ExportOptions,
+  headingDepth,
+  stripManualNumber,
+  summarisedSections
+} from './document';
+import { MarkdownNode, parseBlocks } from './markdownBlocks';
+import { ExportTheme } from './themes';
+
+// Writes a BRD as a single self-contained HTML file: styles are inlined and
+// nothing is fetched, so the file can be mailed or archived as it is. The
+// print stylesheet lays it out as a paged document (cover page, table of
+// contents, each top-level section on a new page, running header and footer
+// with the version and page numbers), so printing to PDF from the browser
+// gives the finished document.
+
+export interface HtmlExportOptions extends ExportOptions {
+  theme: ExportTheme;
+}
+
+export const HTML_MIME_TYPE = 'text/html';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// A quoted CSS string, for the running header and footer. `<` is escaped so
+// the text cannot close the style element.
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/</g, '\\3c ').replace(/\s+/g, ' ')}"`;
+}
+
+// Links to other schemes (javascript: and the like) are dropped
+function safeHref(href: string): string | null {
+  const scheme = href.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !/^(https?|mailto)$/i.test(scheme[1])) return null;
+  return href;
+}
+
+function sectionAnchor(path: string): string {
+  return `section-${path.replace(/\./g, '-')}`;
+}
+
+function renderSpans(spans: InlineSpan[]): string {
+  return spans
+    .map(span => {
+      let html = escapeHtml(span.text).replace(/\n/g, '<br>');
+      if (span.code) html = `<code>${html}</code>`;
+      if (span.strike) html = `<del>${html}</del>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      const href = span.href ? safeHref(span.href) : null;
+      return href ? `<a href="${escapeHtml(href)}">${html}</a>` : html;
+    })
+    .join('');
+}
+
+function renderList(list: Extract<MarkdownNode, { kind: 'list' }>): string {
+  const items = list.items.map(item => {
+    const checkbox = item.checked === null
+      ? ''
+      : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+    const children = item.children.map(renderNode).join('');
+    return `<li${item.checked === null ? '' : ' class="task"'}>${checkbox}${renderSpans(item.spans)}${children}</li>`;
+  }).join('');
+
+  if (!list.ordered) return `<ul>${items}</ul>`;
+  return `<ol${list.start === 1 ? '' : ` start="${list.start}"`}>${items}</ol>`;
+}
+
+function renderTable(table: Extract<MarkdownNode, { kind: 'table' }>): string {
+  const cell = (tag: 'th' | 'td', spans: InlineSpan[], column: number) => {
+    const align = table.align[column];
+    return `<${tag}${align ? ` style="text-align: ${align}"` : ''}>${renderSpans(spans)}</${tag}>`;
+  };
+
+  const header = `<tr>${table.header.map((spans, i) => cell('th', spans, i)).join('')}</tr>`;
+  const rows = table.rows.map(row => `<tr>${row.map((spans, i) => cell('td', spans, i)).join('')}</tr>`).join('');
+  return `<table><thead>${header}</thead><tbody>${rows}</tbody></table>`;
+}
+
+// Raw HTML is not copied into the export. <details> blocks (from imported
+// expand macros) are kept, opened so their content prints; other lines keep
+// only their text.
+function renderHtmlLines(text: string): string {
+  return text.split('\n').map(line => {
+    const trimmed = line.trim();
+    if (/^<details(\s[^>]*)?>$/i.test(trimmed)) return '<details open>';
+    if (/^<\/details>$/i.test(trimmed)) return '</details>';
+
+    const summary = trimmed.match(/^<summary>(.*?)<\/summary>$/i);
+    const plain = decodeEntities((summary ? summary[1] : trimmed).replace(/<[^>]+>/g, '')).trim();
+    if (!plain) return '';
+    return summary ? `<summary>${escapeHtml(plain)}</summary>` : `<p>${escapeHtml(plain)}</p>`;
+  }).join('');
+}
+
+function renderNode(node: MarkdownNode): string {
+  switch (node.kind) {
+    case 'paragraph':
+      return `<p>${renderSpans(node.spans)}</p>`;
+    case 'list':
+      return renderList(node);
+    case 'table':
+      return renderTable(node);
+    case 'code': {
+      const language = node.language ? ` class="language-${escapeHtml(node.language)}"` : '';
+      return `<pre><code${language}>${escapeHtml(node.text)}</code></pre>`;
+    }
+    case 'quote': {
+      const children = node.children.map(renderNode).join('');
+      if (!node.alert) return `<blockquote>${children}</blockquote>`;
+      const label = ALERT_LABELS[node.alert] ?? node.alert;
+      return `<aside class="alert alert-${node.alert.toLowerCase()}"><p class="alert-title">${escapeHtml(label)}</p>${children}</aside>`;
+    }
+    case 'rule':
+      return '<hr>';
+    case 'html':
+      return renderHtmlLines(node.text);
+  }
+}
+
+function renderCoverPage(options: ExportOptions): string {
+  const field = (label: string, value: string) =>
+    value ? `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>` : '';
+
+  return '<section class="cover">'
+    + `<h1 class="cover-title">${escapeHtml(options.title)}</h1>`
+    + '<p class="cover-subtitle">Business Requirements Document</p>'
+    + '<dl class="cover-details">'
+    + field('Version', options.version)
+    + field('Date', options.date)
+    + field(options.authors.length > 1 ? 'Authors' : 'Author', options.authors.join(', '))
+    + '</dl></section>';
+}
+
+function renderTableOfContents(headings: { depth: number; path: string; title: string }[], hasAppendix: boolean): string {
+  const entries = headings.map(heading =>
+    `<li class="toc-level-${heading.depth}"><a href="#${sectionAnchor(heading.path)}">`
+    + `<span class="toc-number">${heading.path}</span>${escapeHtml(heading.title)}</a></li>`
+  );
+  if (hasAppendix) {
+    entries.push(`<li class="toc-level-1"><a href="#appendix"><span class="toc-number"></span>${APPENDIX_TITLE}</a></li>`);
+  }
+
+  return '<nav class="toc"><h2 class="toc-heading">Table of Contents</h2>'
+    + `<ol>${entries.join('')}</ol></nav>`;
+}
+
+function renderAppendix(sections: Section[]): string {
+  const summarised = summarisedSections(sections);
+  if (summarised.length === 0) return '';
+
+  return `<section class="appendix"><h1 id="appendix">${APPENDIX_TITLE}</h1><dl>`
+    + summarised.map(section =>
+      `<dt>${section.path} ${escapeHtml(stripManualNumber(section.title))}</dt>`
+      + `<dd>${escapeHtml(section.summary ?? '')}</dd>`
+    ).join('')
+    + '</dl></section>';
+}
+
+function stylesheet(options: HtmlExportOptions): string {
+  const { theme } = options;
+  const header = [options.title, options.version ? `Version ${options.version}` : ''].filter(Boolean).join(' · ');
+
+  return `
+:root {
+  --body-font: ${theme.bodyFont};
+  --heading-font: ${theme.headingFont};
+  --accent: ${theme.accent};
+  --accent-soft: ${theme.accentSoft};
+  --text: ${theme.text};
+  --muted: ${theme.muted};
+  --border: ${theme.border};
+}
+
+@page {
+  size: A4;
+  margin: 22mm 18mm 20mm;
+  @top-left { content: ${cssString(header)}; font: 9pt var(--body-font); color: var(--muted); }
+  @top-right { content: ${cssString(options.date)}; font: 9pt var(--body-font); color: var(--muted); }
+  @bottom-left { content: ${cssString(options.authors.join(', '))}; font: 9pt var(--body-font); color: var(--muted); }
+  @bottom-right { content: "Page " counter(page) " of " counter(pages); font: 9pt var(--body-font); color: var(--muted); }
+}
+
+/* The cover page carries no running header or footer */
+@page :first {
+  @top-left { content: none; }
+  @top-right { content: none; }
+  @bottom-left { content: none; }
+  @bottom-right { content: none; }
+}
+
+* { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  font-family: var(--body-font);
+  font-size: 10.5pt;
+  line-height: 1.5;
+  color: var(--text);
+}
+
+h1, h2, h3, h4, h5, h6 {
+  font-family: var(--heading-font);
+  color: var(--accent);
+  line-height: 1.25;
+  margin: 1.4em 0 0.5em;
+  break-after: avoid;
+}
+h1 { font-size: 20pt; border-bottom: 2px solid var(--accent); padding-bottom: 0.2em; }
+h2 { font-size: 15pt; }
+h3 { font-size: 13pt; }
+h4, h5, h6 { font-size: 11pt; }
+.section-number { margin-right: 0.5em; }
+
+a { color: var(--accent); }
+code { font-family: Consolas, "Courier New", monospace; font-size: 0.9em; background: var(--accent-soft); padding: 0 0.2em; border-radius: 2px; }
+pre { background: #f6f8fa; border: 1px solid var(--border); border-radius: 4px; padding: 0.75em; white-space: pre-wrap; break-inside: avoid; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 1em 0; padding: 0 1em; border-left: 3px solid var(--border); color: var(--muted); }
+hr { border: none; border-top: 1px solid var(--border); margin: 1.5em 0; }
+li.task { list-style: none; }
+li.task input { margin: 0 0.4em 0 -1.3em; }
+
+table { width: 100%; border-collapse: collapse; margin: 1em 0; font-size: 9.5pt; }
+thead { display: table-header-group; }
+tr { break-inside: avoid; }
+th, td { border: 1px solid var(--border); padding: 0.35em 0.5em; text-align: left; vertical-align: top; }
+th { background: var(--accent-soft); }
+
+.alert { margin: 1em 0; padding: 0.5em 1em; border-left: 4px solid var(--accent); background: var(--accent-soft); break-inside: avoid; }
+.alert-warning, .alert-caution { border-left-color: #b45309; background: #fef3c7; }
+.alert-title { font-weight: bold; margin: 0 0 0.25em; }
+details { margin: 1em 0; }
+summary { font-weight: bold; }
+
+.cover { display: flex; flex-direction: column; justify-content: center; min-height: 240mm; break-after: page; }
+.cover-title { font-size: 32pt; border: none; margin: 0; }
+.cover-subtitle { font-size: 14pt; color: var(--muted); margin: 0.5em 0 3em; }
+.cover-details { display: grid; grid-template-columns: max-content 1fr; gap: 0.4em 1.5em; margin: 0; }
+.cover-details dt { font-weight: bold; color: var(--accent); }
+.cover-details dd { margin: 0; }
+
+.toc { break-after: page; }
+.toc-heading { font-size: 18pt; margin-top: 0; }
+.toc ol { list-style: none; padding: 0; margin: 0; }
+.toc li { margin: 0.2em 0; }
+.toc a { display: flex; color: var(--text); text-decoration: none; }
+/* Paged-media engines (WeasyPrint, Prince) fill in page numbers; browsers
+   ignore the declaration */
+.toc a::after { content: leader(".") target-counter(attr(href url), page); margin-left: auto; }
+.toc-number { display: inline-block; min-width: 4em; }
+.toc-level-1 { font-weight: bold; margin-top: 0.5em; }
+${[2, 3, 4, 5, 6].map(level => `.toc-level-${level} { padding-left: ${(level - 1) * 1.5}em; }`).join('\n')}
+
+/* Each top-level section starts a new page */
+main > h1, .appendix { break-before: page; }
+.appendix > h1 { break-before: auto; }
+.appendix dt { font-weight: bold; margin-top: 0.75em; }
+.appendix dd { margin: 0.25em 0 0; }
+
+@media screen {
+  body { background: #f3f4f6; }
+  .page { max-width: 210mm; margin: 2em auto; padding: 20mm 18mm; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15); }
+  .cover { min-height: 0; padding: 3em 0; border-bottom: 1px solid var(--border); margin-bottom: 2em; }
+  .toc { border-bottom: 1px solid var(--border); padding-bottom: 2em; }
+}
+`;
+}
+
+export function exportHtml(content: string, options: HtmlExportOptions): string {
+  const tree = buildSectionTree(parseMarkdownSections(content));
+
+  const headings = tree
+    .filter(section => section.level > 0)
+    .map(section => ({
+      depth: headingDepth(section.path),
+      path: section.path,
+      title: stripManualNumber(section.title)
+    }));
+
+  const body = tree.map(section => {
+    const nodes = parseBlocks(section.content).map(renderNode).join('');
+    if (section.level === 0) return nodes;
+
+    const depth = headingDepth(section.path);
+    return `<h${depth} id="${sectionAnchor(section.path)}"><span class="section-number">${section.path}</span>`
+      + `${escapeHtml(stripManualNumber(section.title))}</h${depth}>${nodes}`;
+  }).join('\n');
+
+  const appendix = options.summaries ? renderAppendix(options.summaries) : '';
+
+  return '<!DOCTYPE html>\n'
+    + '<html lang="en">\n<head>\n<meta charset="utf-8">\n'
+    + '<meta name="viewport" content="width=device-width, initial-scale=1">\n'
+    + `<meta name="author" content="${escapeHtml(options.authors.join(', '))}">\n`
+    + `<title>${escapeHtml(options.title)}</title>\n`
+    + `<style>${stylesheet(options)}</style>\n</head>\n<body>\n<div class="page">\n`
+    + renderCoverPage(options)
+    + renderTableOfContents(headings, appendix !== '')
+    + `\n<main>\n${body}\n${appendix}\n</main>\n</div>\n</body>\n</html>\n`;
+}
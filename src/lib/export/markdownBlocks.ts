@@ -0,0 +1,342 @@
+import { InlineSpan } from '@/lib/import/markdownWriter';
+
+// A small Markdown reader for the exporters. Section headings are split off
+// by the shared section parser first; this handles what a section body may
+// contain: paragraphs, lists, pipe tables, fenced code, quotes (including
+// `> [!NOTE]` alerts), thematic breaks and raw HTML lines.
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  spans: InlineSpan[];
+  checked: boolean | null;
+  children: MarkdownNode[];
+}
+
+export type MarkdownNode =
+  | { kind: 'paragraph'; spans: InlineSpan[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { kind: 'table'; align: TableAlignment[]; header: InlineSpan[][]; rows: InlineSpan[][][] }
+  | { kind: 'code'; language: string; text: string }
+  | { kind: 'quote'; alert: string | null; children: MarkdownNode[] }
+  | { kind: 'rule' }
+  | { kind: 'html'; text: string };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+const HTML_LINE = /^ {0,3}<\/?[a-zA-Z][\w-]*(\s[^>]*)?\/?>/;
+const ALERT = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/i;
+
+function indentOf(line: string): number {
+  return line.match(/^ */)?.[0].length ?? 0;
+}
+
+function isBlank(line: string): boolean {
+  return !line.trim();
+}
+
+function startsBlock(line: string, next: string | undefined): boolean {
+  return FENCE.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+    || HTML_LINE.test(line) || (line.includes('|') && next !== undefined && TABLE_DELIMITER.test(next));
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && trimmed[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (trimmed[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += trimmed[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function readTable(lines: string[], start: number): { node: MarkdownNode; next: number } {
+  const header = splitTableRow(lines[start]);
+  const align = splitTableRow(lines[start + 1]).map((cell): TableAlignment => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+
+  const rows: InlineSpan[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+    const cells = splitTableRow(lines[i]);
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+    i++;
+  }
+
+  return { node: { kind: 'table', align, header: header.map(cell => parseInline(cell)), rows }, next: i };
+}
+
+function readList(lines: string[], start: number): { node: MarkdownNode; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: { text: string[]; body: string[] }[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+
+    if (item && item[1].length <= baseIndent + 1) {
+      // A different kind of marker at the same indent starts a new list
+      if (/\d/.test(item[2]) !== ordered) break;
+      items.push({ text: [item[3] ?? ''], body: [] });
+    } else if (isBlank(line)) {
+      const following = lines.slice(i + 1).find(l => !isBlank(l));
+      if (!following || (indentOf(following) <= baseIndent && !LIST_ITEM.test(following))) break;
+      items[items.length - 1].body.push('');
+    } else if (indentOf(line) > baseIndent) {
+      const current = items[items.length - 1];
+      // Continuation lines of the item's first paragraph, until a nested block
+      if (current.body.length === 0 && !startsBlock(line.trim(), undefined)) {
+        current.text.push(line.trim());
+      } else {
+        current.body.push(line);
+      }
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  const listItems = items.map(({ text, body }): ListItem => {
+    let lead = text.join('\n');
+    let checked: boolean | null = null;
+    const task = lead.match(/^\[([ xX])\]\s+/);
+    if (task) {
+      checked = task[1] !== ' ';
+      lead = lead.slice(task[0].length);
+    }
+
+    const indent = Math.min(...body.filter(l => !isBlank(l)).map(indentOf));
+    const children = body.some(l => !isBlank(l)) ? parseBlocks(body.map(l => l.slice(indent)).join('\n')) : [];
+    return { spans: parseInline(joinParagraphLines(lead.split('\n'))), checked, children };
+  });
+
+  const startNumber = ordered ? Number(first[2].slice(0, -1)) : 1;
+  return { node: { kind: 'list', ordered, start: startNumber, items: listItems }, next: i };
+}
+
+// Soft line breaks become spaces; two trailing spaces or a backslash make a
+// hard break
+function joinParagraphLines(lines: string[]): string {
+  return lines
+    .map((line, i) => {
+      if (i === lines.length - 1) return line.trim();
+      if (/( {2,}|\\)$/.test(line)) return `${line.replace(/( {2,}|\\)$/, '').trim()}\n`;
+      return `${line.trim()} `;
+    })
+    .join('');
+}
+
+export function parseBlocks(content: string): MarkdownNode[] {
+  const lines = content.split(/\r?\n/);
+  const nodes: MarkdownNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        body.push(lines[i]);
+        i++;
+      }
+      nodes.push({ kind: 'code', language: fence[2], text: body.join('\n') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      nodes.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      const alert = body[0]?.trim().match(ALERT);
+      const children = parseBlocks((alert ? body.slice(1) : body).join('\n'));
+      nodes.push({ kind: 'quote', alert: alert ? alert[1].toUpperCase() : null, children });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+      const { node, next } = readTable(lines, i);
+      nodes.push(node);
+      i = next;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = readList(lines, i);
+      nodes.push(node);
+      i = next;
+      continue;
+    }
+
+    if (HTML_LINE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      nodes.push({ kind: 'html', text: body.join('\n') });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    nodes.push({ kind: 'paragraph', spans: parseInline(joinParagraphLines(paragraph)) });
+  }
+
+  return nodes;
+}
+
+// Finds the closing delimiter for an emphasis run opened at `from`
+function findClosing(text: string, marker: string, from: number): number {
+  for (let j = from; j <= text.length - marker.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text.startsWith(marker, j) && j > from && !/\s/.test(text[j - 1])) {
+      // A single `*` must not be half of a `**`
+      if (marker.length === 1 && (text[j + 1] === marker || text[j - 1] === marker)) continue;
+      return j;
+    }
+  }
+  return -1;
+}
+
+function findBracketEnd(text: string, from: number): number {
+  let depth = 0;
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') j++;
+    else if (text[j] === '[') depth++;
+    else if (text[j] === ']' && --depth === 0) return j;
+  }
+  return -1;
+}
+
+export function parseInline(text: string, formatting: Omit<InlineSpan, 'text'> = {}): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) spans.push({ text: buffer, ...formatting });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+
+    if (c === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close >= 0) {
+        flush();
+        spans.push({ text: text.slice(i + run.length, close).trim(), ...formatting, code: true });
+        i = close + run.length;
+        continue;
+      }
+    }
+
+    const double = text.slice(i, i + 2);
+    if (double === '**' || double === '__' || double === '~~') {
+      const close = findClosing(text, double, i + 2);
+      if (close > 0 && !/\s/.test(text[i + 2] ?? ' ')) {
+        flush();
+        const style = double === '~~' ? { strike: true } : { bold: true };
+        spans.push(...parseInline(text.slice(i + 2, close), { ...formatting, ...style }));
+        i = close + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) are not emphasis
+    if ((c === '*' || (c === '_' && !/\w/.test(text[i - 1] ?? ''))) && !/\s/.test(text[i + 1] ?? ' ')) {
+      const close = findClosing(text, c, i + 1);
+      if (close > 0 && (c === '*' || !/\w/.test(text[close + 1] ?? ''))) {
+        flush();
+        spans.push(...parseInline(text.slice(i + 1, close), { ...formatting, italic: true }));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (c === '[') {
+      const end = findBracketEnd(text, i);
+      const target = end > 0 ? text.slice(end + 1).match(/^\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/) : null;
+      if (target) {
+        flush();
+        spans.push(...parseInline(text.slice(i + 1, end), { ...formatting, href: target[1] }));
+        i = end + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    if (c === '<') {
+      const lineBreak = text.slice(i).match(/^<br\s*\/?>/i);
+      if (lineBreak) {
+        buffer += '\n';
+        i += lineBreak[0].length;
+        continue;
+      }
+      const autolink = text.slice(i).match(/^<((?:https?|mailto):[^>\s]+)>/);
+      if (autolink) {
+        flush();
+        spans.push({ text: autolink[1].replace(/^mailto:/, ''), ...formatting, href: autolink[1] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    buffer += c;
+    i++;
+  }
+
+  flush();
+  return spans;
+}
+
+// Flattens spans to plain text, e.g. for titles and alt text
+export function spansToText(spans: InlineSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
@@ -0,0 +1,62 @@
+// Colour and type schemes for the HTML/PDF export. Each theme is a set of
+// CSS custom properties, so the stylesheet itself stays the same.
+
+export interface ExportTheme {
+  id: string;
+  name: string;
+  description: string;
+  bodyFont: string;
+  headingFont: string;
+  // Headings, cover page and links
+  accent: string;
+  // Table headers and callout backgrounds
+  accentSoft: string;
+  text: string;
+  muted: string;
+  border: string;
+}
+
+export const EXPORT_THEMES: ExportTheme[] = [
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    description: 'Navy headings on a clean sans-serif body',
+    bodyFont: '"Segoe UI", "Helvetica Neue", Arial, sans-serif',
+    headingFont: '"Segoe UI", "Helvetica Neue", Arial, sans-serif',
+    accent: '#1f3864',
+    accentSoft: '#d9e2f3',
+    text: '#1a1a1a',
+    muted: '#5f6b7a',
+    border: '#b4c0d3'
+  },
+  {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Teal accents with generous spacing',
+    bodyFont: 'Inter, "Helvetica Neue", Arial, sans-serif',
+    headingFont: 'Inter, "Helvetica Neue", Arial, sans-serif',
+    accent: '#0f766e',
+    accentSoft: '#ccfbf1',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#99d6cf'
+  },
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Black serif type for formal sign-off copies',
+    bodyFont: 'Georgia, "Times New Roman", serif',
+    headingFont: 'Georgia, "Times New Roman", serif',
+    accent: '#000000',
+    accentSoft: '#eeeeee',
+    text: '#000000',
+    muted: '#555555',
+    border: '#999999'
+  }
+];
+
+export const DEFAULT_THEME_ID = 'corporate';
+
+export function findTheme(id: string): ExportTheme {
+  return EXPORT_THEMES.find(theme => theme.id === id) ?? EXPORT_THEMES[0];
+}
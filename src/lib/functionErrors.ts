@@ -0,0 +1,16 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// supabase.functions.invoke only reports "non-2xx status code" for HTTP
+// errors; the edge function's own message is in the response body.
+export async function describeFunctionError(error: unknown): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // Body was not JSON; fall back to the generic message
+    }
+  }
+
+  return error instanceof Error && error.message ? error.message : 'Unknown error';
+}
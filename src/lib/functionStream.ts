@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+import { describeFunctionError } from '@/lib/functionErrors';
+import { readServerSentEvents } from '@shared/sse';
+
+// Calls an ai-brd-processor action with `stream: true`, forwards its progress
+// events to `onEvent` and resolves with the payload of the final `result`
+// event. Aborting `signal` closes the stream, which cancels the work on the
+// server, and rejects with an AbortError.
+export async function invokeStreaming<T>(
+  body: Record<string, unknown>,
+  signal: AbortSignal,
+  onEvent: (event: string, data: unknown) => void
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('ai-brd-processor', {
+    body: { ...body, stream: true }
+  });
+
+  if (error) {
+    throw new Error(await describeFunctionError(error));
+  }
+
+  const response = data as Response;
+  if (!response?.body) {
+    throw new Error('No response from AI processing');
+  }
+
+  for await (const event of readServerSentEvents(response.body, signal)) {
+    const payload = JSON.parse(event.data);
+    if (event.event === 'result') return payload as T;
+    if (event.event === 'error') throw new Error(payload?.error ?? 'AI processing failed');
+    onEvent(event.event, payload);
+  }
+
+  if (signal.aborted) {
+    throw new DOMException('The request was cancelled', 'AbortError');
+  }
+  throw new Error('The connection closed before the AI finished');
+}
@@ -0,0 +1,386 @@
+import { readZip } from '@/lib/zip';
+import { ImportIssueLog, ImportResult, InlineSpan, MarkdownBlock, renderBlocks, renderInline } from './markdownWriter';
+
+// Converts a Word document to Markdown: Heading 1-6 (and Title) paragraphs
+// become headings, numbered and bulleted paragraphs become lists, tables
+// become pipe tables and bold, italic, strikethrough and hyperlinks are kept.
+// Everything else is dropped and reported through the issue log.
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MATH = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+interface ParagraphStyle {
+  name: string;
+  basedOn: string | null;
+  outlineLevel: number | null;
+  numbering: NumberingReference | null;
+}
+
+interface CharacterStyle {
+  basedOn: string | null;
+  bold: boolean | null;
+  italic: boolean | null;
+}
+
+interface NumberingReference {
+  numId: string;
+  level: number;
+}
+
+interface DocxParts {
+  paragraphStyles: Map<string, ParagraphStyle>;
+  characterStyles: Map<string, CharacterStyle>;
+  // numId -> list level -> whether that level is numbered rather than bulleted
+  numbering: Map<string, Map<number, boolean>>;
+  links: Map<string, string>;
+  issues: ImportIssueLog;
+}
+
+function children(element: Element, name: string, namespace = W): Element[] {
+  return Array.from(element.children).filter(child => child.namespaceURI === namespace && child.localName === name);
+}
+
+function child(element: Element | null | undefined, name: string): Element | null {
+  return element ? children(element, name)[0] ?? null : null;
+}
+
+function attr(element: Element | null | undefined, name: string, namespace = W): string | null {
+  return element?.getAttributeNS(namespace, name) ?? null;
+}
+
+// Toggle properties such as <w:b/> are on unless their value says otherwise
+function toggle(element: Element | null): boolean | null {
+  if (!element) return null;
+  const value = attr(element, 'val');
+  return value === null || !['0', 'false', 'off'].includes(value);
+}
+
+function parseXml(bytes: Uint8Array | undefined): Document | null {
+  if (!bytes) return null;
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The Word document contains malformed XML');
+  }
+  return document;
+}
+
+function readNumberingReference(properties: Element | null): NumberingReference | null {
+  const numPr = child(properties, 'numPr');
+  const numId = attr(child(numPr, 'numId'), 'val');
+  if (!numPr || numId === null) return null;
+  return { numId, level: Number(attr(child(numPr, 'ilvl'), 'val') ?? 0) };
+}
+
+function readStyles(document: Document | null) {
+  const paragraphStyles = new Map<string, ParagraphStyle>();
+  const characterStyles = new Map<string, CharacterStyle>();
+  if (!document) return { paragraphStyles, characterStyles };
+
+  for (const style of children(document.documentElement, 'style')) {
+    const id = attr(style, 'styleId');
+    if (!id) continue;
+    const basedOn = attr(child(style, 'basedOn'), 'val');
+
+    if (attr(style, 'type') === 'paragraph') {
+      const properties = child(style, 'pPr');
+      const outlineLevel = attr(child(properties, 'outlineLvl'), 'val');
+      paragraphStyles.set(id, {
+        name: attr(child(style, 'name'), 'val') ?? id,
+        basedOn,
+        outlineLevel: outlineLevel === null ? null : Number(outlineLevel),
+        numbering: readNumberingReference(properties)
+      });
+    } else if (attr(style, 'type') === 'character') {
+      const properties = child(style, 'rPr');
+      characterStyles.set(id, {
+        basedOn,
+        bold: toggle(child(properties, 'b')),
+        italic: toggle(child(properties, 'i'))
+      });
+    }
+  }
+
+  return { paragraphStyles, characterStyles };
+}
+
+function readNumbering(document: Document | null): Map<string, Map<number, boolean>> {
+  const numbering = new Map<string, Map<number, boolean>>();
+  if (!document) return numbering;
+
+  const abstractLevels = new Map<string, Map<number, boolean>>();
+  for (const abstract of children(document.documentElement, 'abstractNum')) {
+    const levels = new Map<number, boolean>();
+    for (const level of children(abstract, 'lvl')) {
+      const format = attr(child(level, 'numFmt'), 'val') ?? 'decimal';
+      levels.set(Number(attr(level, 'ilvl') ?? 0), format !== 'bullet' && format !== 'none');
+    }
+    abstractLevels.set(attr(abstract, 'abstractNumId') ?? '', levels);
+  }
+
+  for (const num of children(document.documentElement, 'num')) {
+    const levels = abstractLevels.get(attr(child(num, 'abstractNumId'), 'val') ?? '');
+    if (levels) numbering.set(attr(num, 'numId') ?? '', levels);
+  }
+  return numbering;
+}
+
+function readLinks(document: Document | null): Map<string, string> {
+  const links = new Map<string, string>();
+  if (!document) return links;
+
+  for (const relationship of Array.from(document.documentElement.children)) {
+    if (relationship.getAttribute('TargetMode') === 'External') {
+      links.set(relationship.getAttribute('Id') ?? '', relationship.getAttribute('Target') ?? '');
+    }
+  }
+  return links;
+}
+
+// Follows basedOn links until `pick` finds a value; Word styles inherit
+// most properties, including outline level and numbering.
+function resolveStyle<S extends { basedOn: string | null }, T>(
+  styles: Map<string, S>,
+  id: string | null,
+  pick: (style: S) => T | null
+): T | null {
+  for (let depth = 0; id && depth < 20; depth++) {
+    const style = styles.get(id);
+    if (!style) return null;
+    const value = pick(style);
+    if (value !== null) return value;
+    id = style.basedOn;
+  }
+  return null;
+}
+
+function headingLevel(parts: DocxParts, styleId: string | null, properties: Element | null): number | null {
+  const ownOutline = attr(child(properties, 'outlineLvl'), 'val');
+  const level = resolveStyle(parts.paragraphStyles, styleId, style => {
+    const match = style.name.match(/^heading\s*([1-6])$/i);
+    if (match) return Number(match[1]);
+    if (/^title$/i.test(style.name)) return 1;
+    // Outline levels are zero-based and 9 means body text
+    return style.outlineLevel === null ? null : style.outlineLevel + 1;
+  });
+
+  const outline = ownOutline !== null ? Number(ownOutline) + 1 : level;
+  return outline !== null && outline >= 1 && outline <= 6 ? outline : null;
+}
+
+function listKind(parts: DocxParts, styleId: string | null, properties: Element | null) {
+  const reference = readNumberingReference(properties)
+    ?? resolveStyle(parts.paragraphStyles, styleId, style => style.numbering);
+  if (reference) {
+    // numId 0 switches off numbering inherited from the style
+    if (reference.numId === '0') return null;
+    const ordered = parts.numbering.get(reference.numId)?.get(reference.level) ?? false;
+    return { ordered, depth: reference.level };
+  }
+
+  // Documents built from the "List Bullet 2" style family without real numbering
+  const name = styleId ? parts.paragraphStyles.get(styleId)?.name ?? '' : '';
+  const match = name.match(/^list (bullet|number)\s*(\d)?$/i);
+  if (!match) return null;
+  return { ordered: match[1].toLowerCase() === 'number', depth: match[2] ? Number(match[2]) - 1 : 0 };
+}
+
+function runFormatting(parts: DocxParts, run: Element) {
+  const properties = child(run, 'rPr');
+  const styleId = attr(child(properties, 'rStyle'), 'val');
+  const bold = toggle(child(properties, 'b'))
+    ?? resolveStyle(parts.characterStyles, styleId, style => style.bold)
+    ?? false;
+  const italic = toggle(child(properties, 'i'))
+    ?? resolveStyle(parts.characterStyles, styleId, style => style.italic)
+    ?? false;
+  const strike = !!(toggle(child(properties, 'strike')) || toggle(child(properties, 'dstrike')));
+  return { bold, italic, strike };
+}
+
+function readRun(parts: DocxParts, run: Element, href: string | undefined, spans: InlineSpan[]) {
+  const formatting = runFormatting(parts, run);
+  const push = (text: string) => spans.push({ text, ...formatting, href });
+
+  for (const element of Array.from(run.children)) {
+    if (element.namespaceURI !== W) continue;
+    switch (element.localName) {
+      case 't':
+        push(element.textContent ?? '');
+        break;
+      case 'tab':
+        push(' ');
+        break;
+      case 'br':
+      case 'cr':
+        // Page and column breaks have no meaning in Markdown
+        if (!attr(element, 'type') || attr(element, 'type') === 'textWrapping') push('\n');
+        break;
+      case 'noBreakHyphen':
+        push('-');
+        break;
+      case 'drawing':
+      case 'pict':
+        parts.issues.add('Images, charts and text boxes');
+        break;
+      case 'object':
+        parts.issues.add('Embedded objects');
+        break;
+      case 'footnoteReference':
+      case 'endnoteReference':
+        parts.issues.add('Footnotes and endnotes');
+        break;
+      case 'sym':
+        parts.issues.add('Symbol characters');
+        break;
+    }
+  }
+}
+
+// Collects the text of a paragraph (or any run container inside one)
+function readInline(parts: DocxParts, container: Element, spans: InlineSpan[], href?: string) {
+  for (const element of Array.from(container.children)) {
+    if (element.namespaceURI === MATH) {
+      parts.issues.add('Equations');
+      continue;
+    }
+    if (element.namespaceURI !== W) continue;
+
+    switch (element.localName) {
+      case 'r':
+        readRun(parts, element, href, spans);
+        break;
+      case 'hyperlink': {
+        const target = parts.links.get(attr(element, 'id', R) ?? '');
+        const anchor = attr(element, 'anchor');
+        readInline(parts, element, spans, target ?? (anchor ? `#${anchor}` : href));
+        break;
+      }
+      case 'ins':
+      case 'smartTag':
+      case 'customXml':
+      case 'fldSimple':
+        readInline(parts, element, spans, href);
+        break;
+      case 'sdt': {
+        const content = child(element, 'sdtContent');
+        if (content) readInline(parts, content, spans, href);
+        break;
+      }
+      case 'del':
+        parts.issues.add('Tracked deletions (left out)');
+        break;
+    }
+  }
+}
+
+function readParagraph(parts: DocxParts, paragraph: Element): MarkdownBlock | null {
+  const properties = child(paragraph, 'pPr');
+  const styleId = attr(child(properties, 'pStyle'), 'val');
+  const spans: InlineSpan[] = [];
+  readInline(parts, paragraph, spans);
+
+  const level = headingLevel(parts, styleId, properties);
+  if (level !== null) {
+    // Heading text is kept plain: the heading style already carries the emphasis
+    const text = spans.map(span => span.text).join('').replace(/\s+/g, ' ').trim();
+    return text ? { kind: 'heading', level, text } : null;
+  }
+
+  const text = renderInline(spans);
+  if (!text) return null;
+
+  const list = listKind(parts, styleId, properties);
+  if (list) return { kind: 'list-item', ...list, text };
+  return { kind: 'paragraph', text };
+}
+
+function readCell(parts: DocxParts, cell: Element): string {
+  const lines: string[] = [];
+  for (const element of Array.from(cell.children)) {
+    if (element.namespaceURI !== W) continue;
+    if (element.localName === 'p') {
+      const spans: InlineSpan[] = [];
+      readInline(parts, element, spans);
+      const text = renderInline(spans, '<br>');
+      if (text) lines.push(text);
+    } else if (element.localName === 'tbl') {
+      parts.issues.add('Nested tables (flattened to text)');
+      lines.push(...readTable(parts, element).map(row => row.filter(Boolean).join(' / ')));
+    }
+  }
+  return lines.join('<br>');
+}
+
+function readTable(parts: DocxParts, table: Element): string[][] {
+  const rows: string[][] = [];
+  for (const row of children(table, 'tr')) {
+    const cells: string[] = [];
+    for (const cell of children(row, 'tc')) {
+      const properties = child(cell, 'tcPr');
+      const span = Number(attr(child(properties, 'gridSpan'), 'val') ?? 1);
+      const merge = child(properties, 'vMerge');
+      if (span > 1 || merge) parts.issues.add('Merged table cells (split)');
+
+      // Cells continuing a vertical merge repeat nothing
+      const continuesMerge = merge && attr(merge, 'val') !== 'restart';
+      cells.push(continuesMerge ? '' : readCell(parts, cell));
+      for (let i = 1; i < span; i++) cells.push('');
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function readBody(parts: DocxParts, container: Element, blocks: MarkdownBlock[]) {
+  for (const element of Array.from(container.children)) {
+    if (element.namespaceURI !== W) continue;
+
+    switch (element.localName) {
+      case 'p': {
+        const block = readParagraph(parts, element);
+        if (block) blocks.push(block);
+        break;
+      }
+      case 'tbl':
+        blocks.push({ kind: 'table', rows: readTable(parts, element) });
+        break;
+      case 'sdt': {
+        const content = child(element, 'sdtContent');
+        if (content) readBody(parts, content, blocks);
+        break;
+      }
+      case 'customXml':
+        readBody(parts, element, blocks);
+        break;
+      case 'altChunk':
+        parts.issues.add('Embedded documents');
+        break;
+    }
+  }
+}
+
+export async function convertDocxToMarkdown(data: ArrayBuffer): Promise<ImportResult> {
+  const files = await readZip(data, name => name.startsWith('word/') && (name.endsWith('.xml') || name.endsWith('.rels')));
+  const document = parseXml(files.get('word/document.xml'));
+  const body = child(document?.documentElement, 'body');
+  if (!body) {
+    throw new Error('This file is not a Word document');
+  }
+
+  const issues = new ImportIssueLog();
+  const parts: DocxParts = {
+    ...readStyles(parseXml(files.get('word/styles.xml'))),
+    numbering: readNumbering(parseXml(files.get('word/numbering.xml'))),
+    links: readLinks(parseXml(files.get('word/_rels/document.xml.rels'))),
+    issues
+  };
+
+  const blocks: MarkdownBlock[] = [];
+  readBody(parts, body, blocks);
+
+  const comments = parseXml(files.get('word/comments.xml'));
+  if (comments) issues.add('Comments', children(comments.documentElement, 'comment').length);
+
+  return { markdown: renderBlocks(blocks), issues: issues.list() };
+}
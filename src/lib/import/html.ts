@@ -0,0 +1,433 @@
+import { ImportIssueLog, ImportResult, InlineSpan, MarkdownBlock, renderBlocks, renderInline } from './markdownWriter';
+
+// Converts HTML pages, including Confluence HTML exports, and Confluence
+// storage-format XML to Markdown. Confluence macros are kept as blocks a
+// reader can still recognise: info, tip, note and warning panels become
+// GitHub-style alerts (`> [!NOTE]`), expand macros become <details> blocks,
+// code macros become fenced code and status lozenges become `STATUS: ...`
+// code spans. Macros with no Markdown form are reported through the issue log.
+
+type Formatting = Omit<InlineSpan, 'text'>;
+
+const SKIPPED = new Set([
+  'script', 'style', 'head', 'title', 'meta', 'link', 'noscript', 'template', 'button', 'form',
+  'ac:parameter', 'ac:placeholder'
+]);
+
+const BLOCK = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'figcaption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'pre', 'blockquote', 'hr',
+  'details', 'summary', 'ac:rich-text-body', 'ac:layout', 'ac:layout-section', 'ac:layout-cell', 'ac:task-list'
+]);
+
+// Macros that sit inside a line of text rather than forming a block
+const INLINE_MACROS = new Set(['status', 'anchor', 'jira']);
+
+// Confluence panel macros and the alert type each maps to
+const ALERTS: Record<string, string> = {
+  info: 'NOTE',
+  information: 'NOTE',
+  tip: 'TIP',
+  note: 'IMPORTANT',
+  warning: 'WARNING'
+};
+
+function isElement(node: Node): node is Element {
+  return node.nodeType === Node.ELEMENT_NODE;
+}
+
+function elementChildren(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === name);
+}
+
+function isBlock(element: Element): boolean {
+  if (element.localName === 'ac:structured-macro') {
+    return !INLINE_MACROS.has(element.getAttribute('ac:name') ?? '');
+  }
+  return BLOCK.has(element.localName);
+}
+
+function macroParameter(macro: Element, name: string): string {
+  const parameter = elementChildren(macro, 'ac:parameter').find(p => p.getAttribute('ac:name') === name);
+  return parameter?.textContent?.trim() ?? '';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function plainText(element: Element): string {
+  return (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+function renderNested(blocks: MarkdownBlock[]): string {
+  return renderBlocks(blocks).trimEnd();
+}
+
+function alertBlock(kind: string | null, title: string, body: MarkdownBlock[]): MarkdownBlock {
+  const lines = [kind ? `[!${kind}]` : '', title ? `**${title}**` : ''].filter(Boolean).join('\n');
+  const content = renderNested(body);
+  return { kind: 'raw', text: quote([lines, content].filter(Boolean).join('\n\n')) };
+}
+
+function detailsBlock(title: string, body: MarkdownBlock[]): MarkdownBlock {
+  return {
+    kind: 'raw',
+    text: `<details>\n<summary>${escapeHtml(title || 'Details')}</summary>\n\n${renderNested(body)}\n\n</details>`
+  };
+}
+
+function codeBlock(code: string, language: string): MarkdownBlock {
+  // The fence must be longer than any run of backticks inside the code
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return { kind: 'raw', text: `${fence}${language}\n${code.replace(/\n+$/, '')}\n${fence}` };
+}
+
+function statusSpan(title: string): InlineSpan {
+  return { text: `STATUS: ${title}`, code: true };
+}
+
+function readInline(issues: ImportIssueLog, node: Node, formatting: Formatting, spans: InlineSpan[]) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    spans.push({ text: (node.textContent ?? '').replace(/\s+/g, ' '), ...formatting });
+    return;
+  }
+  if (!isElement(node) || SKIPPED.has(node.localName)) return;
+
+  const element = node;
+  const next = (extra: Formatting) => {
+    for (const child of Array.from(element.childNodes)) readInline(issues, child, { ...formatting, ...extra }, spans);
+  };
+
+  switch (element.localName) {
+    case 'strong':
+    case 'b':
+      return next({ bold: true });
+    case 'em':
+    case 'i':
+    case 'cite':
+      return next({ italic: true });
+    case 's':
+    case 'del':
+    case 'strike':
+      return next({ strike: true });
+    case 'code':
+    case 'tt':
+    case 'kbd':
+    case 'samp':
+      return next({ code: true });
+    case 'a': {
+      const href = element.getAttribute('href');
+      return next(href && !href.startsWith('javascript:') ? { href } : {});
+    }
+    case 'br':
+      spans.push({ text: '\n', ...formatting });
+      return;
+    case 'img':
+    case 'svg':
+    case 'ac:image':
+      issues.add('Images');
+      return;
+    case 'time':
+      spans.push({ text: element.getAttribute('datetime') ?? plainText(element), ...formatting });
+      return;
+    case 'ac:emoticon':
+      spans.push({ text: element.getAttribute('ac:emoji-fallback') ?? '', ...formatting });
+      return;
+    case 'ac:link':
+      return readConfluenceLink(issues, element, formatting, spans);
+    case 'ac:structured-macro':
+      return readInlineMacro(issues, element, formatting, spans);
+    case 'span':
+      if (element.classList.contains('status-macro')) {
+        spans.push(statusSpan(plainText(element)));
+        return;
+      }
+      return next({});
+    default:
+      return next({});
+  }
+}
+
+// Links to other pages, attachments or users only mean something inside the
+// Confluence space, so they are kept as their link text
+function readConfluenceLink(issues: ImportIssueLog, link: Element, formatting: Formatting, spans: InlineSpan[]) {
+  const body = elementChildren(link, 'ac:link-body')[0] ?? elementChildren(link, 'ac:plain-text-link-body')[0];
+  const target = Array.from(link.children).find(child => child.localName.startsWith('ri:'));
+
+  if (target?.localName === 'ri:user') {
+    issues.add('User mentions');
+    return;
+  }
+  issues.add('Links to Confluence pages and attachments (kept as text)');
+
+  if (body) {
+    for (const child of Array.from(body.childNodes)) readInline(issues, child, formatting, spans);
+  } else if (target) {
+    const text = target.getAttribute('ri:content-title') ?? target.getAttribute('ri:filename') ?? '';
+    spans.push({ text, ...formatting });
+  }
+}
+
+function readInlineMacro(issues: ImportIssueLog, macro: Element, formatting: Formatting, spans: InlineSpan[]) {
+  const name = macro.getAttribute('ac:name') ?? '';
+  if (name === 'status') {
+    const title = macroParameter(macro, 'title') || macroParameter(macro, 'colour');
+    if (title) spans.push(statusSpan(title));
+    return;
+  }
+  if (name === 'anchor') return;
+
+  issues.add(`Confluence "${name}" macros`);
+  const body = elementChildren(macro, 'ac:rich-text-body')[0];
+  if (body) {
+    for (const child of Array.from(body.childNodes)) readInline(issues, child, formatting, spans);
+  }
+}
+
+function readBlocks(issues: ImportIssueLog, container: Element, blocks: MarkdownBlock[]) {
+  let spans: InlineSpan[] = [];
+  const flush = () => {
+    const text = renderInline(spans);
+    if (text) blocks.push({ kind: 'paragraph', text });
+    spans = [];
+  };
+
+  for (const node of Array.from(container.childNodes)) {
+    if (isElement(node) && !SKIPPED.has(node.localName) && isBlock(node)) {
+      flush();
+      readBlock(issues, node, blocks);
+    } else {
+      readInline(issues, node, {}, spans);
+    }
+  }
+  flush();
+}
+
+function nestedBlocks(issues: ImportIssueLog, container: Element | null | undefined): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  if (container) readBlocks(issues, container, blocks);
+  return blocks;
+}
+
+function readBlock(issues: ImportIssueLog, element: Element, blocks: MarkdownBlock[]) {
+  const name = element.localName;
+  const heading = name.match(/^h([1-6])$/);
+  if (heading) {
+    const text = plainText(element);
+    if (text) blocks.push({ kind: 'heading', level: Number(heading[1]), text });
+    return;
+  }
+
+  switch (name) {
+    case 'ul':
+    case 'ol':
+      return readList(issues, element, 0, blocks);
+    case 'table':
+      blocks.push({ kind: 'table', rows: readTable(issues, element) });
+      return;
+    case 'pre': {
+      const params = element.getAttribute('data-syntaxhighlighter-params') ?? element.className;
+      const language = params.match(/(?:brush:\s*|language-)([\w+#-]+)/)?.[1] ?? '';
+      blocks.push(codeBlock(element.textContent ?? '', language));
+      return;
+    }
+    case 'blockquote':
+      blocks.push({ kind: 'raw', text: quote(renderNested(nestedBlocks(issues, element))) });
+      return;
+    case 'hr':
+      blocks.push({ kind: 'raw', text: '---' });
+      return;
+    case 'ac:structured-macro':
+      return readMacro(issues, element, blocks);
+    case 'ac:task-list':
+      return readTaskList(issues, element, blocks);
+    case 'div':
+      if (readExportedMacro(issues, element, blocks)) return;
+      break;
+  }
+
+  readBlocks(issues, element, blocks);
+}
+
+function readMacro(issues: ImportIssueLog, macro: Element, blocks: MarkdownBlock[]) {
+  const name = macro.getAttribute('ac:name') ?? '';
+  const title = macroParameter(macro, 'title');
+  const body = elementChildren(macro, 'ac:rich-text-body')[0];
+
+  if (ALERTS[name]) {
+    blocks.push(alertBlock(ALERTS[name], title, nestedBlocks(issues, body)));
+  } else if (name === 'panel') {
+    blocks.push(alertBlock(null, title, nestedBlocks(issues, body)));
+  } else if (name === 'expand') {
+    blocks.push(detailsBlock(title, nestedBlocks(issues, body)));
+  } else if (name === 'code' || name === 'noformat') {
+    const code = elementChildren(macro, 'ac:plain-text-body')[0]?.textContent ?? '';
+    blocks.push(codeBlock(code, macroParameter(macro, 'language')));
+  } else {
+    issues.add(`Confluence "${name}" macros`);
+    if (body) readBlocks(issues, body, blocks);
+  }
+}
+
+// The same macros as rendered in a Confluence HTML export
+function readExportedMacro(issues: ImportIssueLog, div: Element, blocks: MarkdownBlock[]): boolean {
+  const classes = div.classList;
+  const find = (selector: string) => div.querySelector(`:scope > ${selector}`);
+
+  if (classes.contains('confluence-information-macro')) {
+    const kind = Array.from(classes)
+      .map(name => name.match(/^confluence-information-macro-(\w+)$/)?.[1])
+      .find(name => name && ALERTS[name]);
+    const title = find('.title');
+    const body = nestedBlocks(issues, find('.confluence-information-macro-body'));
+    blocks.push(alertBlock(ALERTS[kind ?? 'info'], title ? plainText(title) : '', body));
+    return true;
+  }
+  if (classes.contains('expand-container')) {
+    const title = div.querySelector('.expand-control-text');
+    blocks.push(detailsBlock(title ? plainText(title) : '', nestedBlocks(issues, find('.expand-content'))));
+    return true;
+  }
+  if (classes.contains('code') && classes.contains('panel')) {
+    const pre = div.querySelector('pre');
+    if (pre) readBlock(issues, pre, blocks);
+    return true;
+  }
+  if (classes.contains('panel')) {
+    const title = find('.panelHeader');
+    blocks.push(alertBlock(null, title ? plainText(title) : '', nestedBlocks(issues, find('.panelContent'))));
+    return true;
+  }
+  return false;
+}
+
+function readList(issues: ImportIssueLog, list: Element, depth: number, blocks: MarkdownBlock[]) {
+  const ordered = list.localName === 'ol';
+  const isTaskList = list.classList.contains('inline-task-list');
+
+  for (const item of elementChildren(list, 'li')) {
+    const lines: string[] = [];
+    const nested: Element[] = [];
+    const trailing: MarkdownBlock[] = [];
+    let spans: InlineSpan[] = [];
+    const flush = () => {
+      const text = renderInline(spans);
+      if (text) lines.push(text);
+      spans = [];
+    };
+
+    for (const node of Array.from(item.childNodes)) {
+      if (isElement(node) && (node.localName === 'ul' || node.localName === 'ol')) {
+        flush();
+        nested.push(node);
+      } else if (isElement(node) && !SKIPPED.has(node.localName) && isBlock(node)) {
+        flush();
+        // Paragraphs stay part of the item; tables, code and macros cannot
+        // be nested in a Markdown list item and follow the list instead
+        for (const block of nestedBlocks(issues, node)) {
+          if (block.kind === 'paragraph') lines.push(block.text);
+          else trailing.push(block);
+        }
+      } else {
+        readInline(issues, node, {}, spans);
+      }
+    }
+    flush();
+
+    const checkbox = isTaskList ? (item.classList.contains('checked') ? '[x] ' : '[ ] ') : '';
+    blocks.push({ kind: 'list-item', ordered, depth, text: checkbox + lines.join('  \n') });
+    for (const child of nested) readList(issues, child, depth + 1, blocks);
+    blocks.push(...trailing);
+  }
+}
+
+function readTaskList(issues: ImportIssueLog, list: Element, blocks: MarkdownBlock[]) {
+  for (const task of elementChildren(list, 'ac:task')) {
+    const done = elementChildren(task, 'ac:task-status')[0]?.textContent?.trim() === 'complete';
+    const spans: InlineSpan[] = [];
+    const body = elementChildren(task, 'ac:task-body')[0];
+    if (body) readInline(issues, body, {}, spans);
+    blocks.push({ kind: 'list-item', ordered: false, depth: 0, text: `${done ? '[x]' : '[ ]'} ${renderInline(spans)}` });
+  }
+}
+
+function readCell(issues: ImportIssueLog, cell: Element): string {
+  return nestedBlocks(issues, cell)
+    .map(block => {
+      switch (block.kind) {
+        case 'heading':
+        case 'paragraph':
+          return block.text;
+        case 'list-item':
+          return `${block.ordered ? '1.' : '-'} ${block.text}`;
+        case 'table':
+          issues.add('Nested tables (flattened to text)');
+          return block.rows.map(row => row.filter(Boolean).join(' / ')).join('<br>');
+        case 'raw':
+          issues.add('Block content inside table cells (flattened to text)');
+          return block.text.replace(/\n+/g, ' ');
+      }
+    })
+    .join('<br>')
+    .replace(/ {2}\n/g, '<br>');
+}
+
+function readTable(issues: ImportIssueLog, table: Element): string[][] {
+  const rows: string[][] = [];
+  // Columns still covered by a cell with rowspan from a row above
+  const covered: number[] = [];
+  const tableRows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+
+  for (const row of tableRows) {
+    const cells: string[] = [];
+    const skipCovered = () => {
+      while ((covered[cells.length] ?? 0) > 0) {
+        covered[cells.length]--;
+        cells.push('');
+      }
+    };
+
+    for (const cell of Array.from(row.children).filter(child => child.localName === 'td' || child.localName === 'th')) {
+      skipCovered();
+      const colspan = Math.max(1, Number(cell.getAttribute('colspan') ?? 1) || 1);
+      const rowspan = Math.max(1, Number(cell.getAttribute('rowspan') ?? 1) || 1);
+      if (colspan > 1 || rowspan > 1) issues.add('Merged table cells (split)');
+
+      for (let i = 0; i < colspan; i++) {
+        if (rowspan > 1) covered[cells.length] = rowspan - 1;
+        cells.push(i === 0 ? readCell(issues, cell) : '');
+      }
+    }
+    skipCovered();
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// Storage format is XHTML with undeclared `ac:`/`ri:` namespaces and CDATA
+// sections, which an XML parser rejects. It is read with the HTML parser
+// instead, after turning CDATA into text and self-closing Confluence
+// elements into explicit pairs (the HTML parser ignores `/>`).
+function prepareStorageFormat(source: string): string {
+  return source
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeHtml(text))
+    .replace(/<((?:ac|ri):[\w-]+)([^>]*?)\/>/g, '<$1$2></$1>');
+}
+
+export function convertHtmlToMarkdown(source: string): ImportResult {
+  const document = new DOMParser().parseFromString(prepareStorageFormat(source), 'text/html');
+  // Confluence HTML exports wrap the page body in navigation and metadata
+  const root = document.getElementById('main-content') ?? document.body;
+
+  const issues = new ImportIssueLog();
+  const blocks: MarkdownBlock[] = [];
+  readBlocks(issues, root, blocks);
+
+  return { markdown: renderBlocks(blocks), issues: issues.list() };
+}
@@ -0,0 +1,24 @@
+import { convertDocxToMarkdown } from './docx';
+import { convertHtmlToMarkdown } from './html';
+import { ImportResult } from './markdownWriter';
+
+// File types the uploader accepts, as an `accept` attribute value
+export const IMPORT_ACCEPT = '.md,.docx,.html,.htm,.xml';
+
+// Reads an uploaded file as Markdown, converting it first if it is in another
+// format. Returns null for file types that cannot be imported.
+export async function importFile(file: File): Promise<ImportResult | null> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.md')) {
+    return { markdown: await file.text(), issues: [] };
+  }
+  if (name.endsWith('.docx')) {
+    return await convertDocxToMarkdown(await file.arrayBuffer());
+  }
+  // .xml is a Confluence storage-format export, which the HTML converter reads
+  if (name.endsWith('.html') || name.endsWith('.htm') || name.endsWith('.xml')) {
+    return convertHtmlToMarkdown(await file.text());
+  }
+  return null;
+}
@@ -0,0 +1,167 @@
+// Building blocks shared by the importers that turn other document formats
+// into the Markdown the section parser works on.
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list-item'; ordered: boolean; depth: number; text: string }
+  | { kind: 'table'; rows: string[][] }
+  | { kind: 'raw'; text: string };
+
+// Something in the source that could not be represented in Markdown, and how
+// often it occurred
+export interface ImportIssue {
+  construct: string;
+  count: number;
+}
+
+export interface ImportResult {
+  markdown: string;
+  issues: ImportIssue[];
+}
+
+export class ImportIssueLog {
+  private counts = new Map<string, number>();
+
+  add(construct: string, count = 1) {
+    if (count > 0) this.counts.set(construct, (this.counts.get(construct) ?? 0) + count);
+  }
+
+  list(): ImportIssue[] {
+    return Array.from(this.counts, ([construct, count]) => ({ construct, count }));
+  }
+}
+
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*[\]])/g, '\\$1');
+}
+
+const BLOCK_MARKER = /^(#{1,6}[ \t]|>|[-+][ \t]|\d+[.)][ \t]|={3,}|-{3,}|`{3,}|~{3,})/;
+
+// A paragraph whose text happens to start like a heading, quote or list item
+// would be parsed as one; a backslash keeps it a paragraph.
+function escapeLineStart(text: string): string {
+  return BLOCK_MARKER.test(text) ? `\\${text}` : text;
+}
+
+function sameFormatting(a: InlineSpan, b: InlineSpan): boolean {
+  return !!a.bold === !!b.bold
+    && !!a.italic === !!b.italic
+    && !!a.strike === !!b.strike
+    && !!a.code === !!b.code
+    && a.href === b.href;
+}
+
+// Joins adjacent spans that share formatting, so runs a word processor split
+// arbitrarily do not come out as `**a****b**`.
+function mergeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const merged: InlineSpan[] = [];
+  for (const span of spans) {
+    if (!span.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameFormatting(last, span)) {
+      last.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+// Parentheses and whitespace would end a Markdown link destination early
+function encodeLinkTarget(href: string): string {
+  return href.replace(/[()\s]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function renderSpan(span: InlineSpan): string {
+  // Emphasis markers must hug the text, so surrounding whitespace stays outside
+  const [, leading, inner, trailing] = span.text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', span.text, ''];
+  if (!inner) return span.text;
+
+  let text = span.code ? `\`${inner.replace(/`/g, "'")}\`` : escapeMarkdown(inner);
+  if (!span.code) {
+    if (span.strike) text = `~~${text}~~`;
+    if (span.italic) text = `*${text}*`;
+    if (span.bold) text = `**${text}**`;
+  }
+  if (span.href) text = `[${text}](${encodeLinkTarget(span.href)})`;
+  return `${leading}${text}${trailing}`;
+}
+
+// Renders spans as one line of inline Markdown. Line breaks inside a span are
+// kept as `lineBreak` (a hard break by default, `<br>` inside table cells).
+export function renderInline(spans: InlineSpan[], lineBreak = '  \n'): string {
+  return mergeSpans(spans)
+    .map(renderSpan)
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+    .replace(/ ?\n ?/g, lineBreak);
+}
+
+function renderTable(rows: string[][]): string {
+  const width = Math.max(...rows.map(row => row.length));
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cell(row[i] ?? '')).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [line(header), `|${' --- |'.repeat(width)}`, ...body.map(line)].join('\n');
+}
+
+// Lays blocks out as a Markdown document: blank lines between blocks, none
+// between the items of a list, and ordered items numbered per nesting level.
+export function renderBlocks(blocks: MarkdownBlock[]): string {
+  const output: string[] = [];
+  let counters: number[] = [];
+  let previous: MarkdownBlock | null = null;
+
+  for (const block of blocks) {
+    if (block.kind === 'list-item') {
+      counters = counters.slice(0, block.depth + 1);
+      counters[block.depth] = block.ordered ? (counters[block.depth] ?? 0) + 1 : 0;
+    } else {
+      counters = [];
+    }
+
+    let text: string;
+    switch (block.kind) {
+      case 'heading':
+        text = `${'#'.repeat(block.level)} ${block.text}`;
+        break;
+      case 'paragraph':
+        text = escapeLineStart(block.text);
+        break;
+      case 'list-item': {
+        const indent = '    '.repeat(block.depth);
+        const marker = block.ordered ? `${counters[block.depth]}.` : '-';
+        text = `${indent}${marker} ${block.text.replace(/\n/g, `\n${indent}  `)}`;
+        break;
+      }
+      case 'table':
+        if (block.rows.length === 0) continue;
+        text = renderTable(block.rows);
+        break;
+      case 'raw':
+        text = block.text;
+        break;
+    }
+
+    if (previous) {
+      output.push(previous.kind === 'list-item' && block.kind === 'list-item' ? '\n' : '\n\n');
+    }
+    output.push(text);
+    previous = block;
+  }
+
+  return output.length > 0 ? `${output.join('')}\n` : '';
+}
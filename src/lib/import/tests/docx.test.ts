@@ -0,0 +1,32 @@
+import { readFileSync } from 'node:fs';
+import { JSDOM } from 'jsdom';
+import { describe, expect, it, vi } from 'vitest';
+import { writeZip } from '@/lib/zip';
+import { convertDocxToMarkdown } from '../docx';
+
+// Node has no XML parser of its own; the zip code needs Node's streams, so
+// only DOMParser is taken from jsdom rather than the whole environment
+vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+
+// Each fixture is a directory holding the document and style parts of a Word
+// file, which are zipped into a .docx here, and the Markdown it converts to
+function readFixture(name: string, file: string): string {
+  return readFileSync(new URL(`./fixtures/${name}/${file}`, import.meta.url), 'utf8');
+}
+
+async function buildDocx(name: string): Promise<ArrayBuffer> {
+  const zip = await writeZip([
+    { name: 'word/document.xml', data: readFixture(name, 'document.xml') },
+    { name: 'word/styles.xml', data: readFixture(name, 'styles.xml') },
+  ]);
+  return zip.arrayBuffer();
+}
+
+describe('convertDocxToMarkdown', () => {
+  it('reads heading levels from custom styles, including inherited outline levels', async () => {
+    const result = await convertDocxToMarkdown(await buildDocx('custom-heading-styles'));
+
+    expect(result.markdown).toBe(readFixture('custom-heading-styles', 'expected.md'));
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+// Minimal reader and writer for the zip containers Office documents use.
+// Entries are either stored or deflated; deflate is done with the browser's
+// CompressionStream and DecompressionStream, so no zip library is needed.
+// Zip64 archives are not supported, which in practice means files over 4 GB.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time as zip tools expect
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes followed by a comment of at most 65535 bytes
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('The file is not a valid zip archive');
+}
+
+// Reads the entries whose names pass `include`, keyed by their path in the
+// archive.
+export async function readZip(
+  data: ArrayBuffer,
+  include: (name: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The zip central directory is corrupt');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`The zip entry ${name} is corrupt`);
+    }
+    // The local header repeats the name but may carry a different extra field
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const content = bytes.subarray(start, start + compressedSize);
+
+    if (method === STORED) {
+      entries.set(name, content);
+    } else if (method === DEFLATED) {
+      entries.set(name, await inflateRaw(content));
+    } else {
+      throw new Error(`The zip entry ${name} uses an unsupported compression method`);
+    }
+  }
+
+  return entries;
+}
+
+// Packs the entries into a zip archive, deflating each one
+export async function writeZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compressed = await deflateRaw(data);
+    const crc = crc32(data);
+
+    // Fields shared by the local header (from offset 4) and the central
+    // directory entry (from offset 6): version, UTF-8 name flag, method,
+    // time, date, CRC, sizes and name length
+    const writeCommon = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0x0800, true);
+      view.setUint16(at + 4, DEFLATED, true);
+      view.setUint16(at + 6, stamp.time, true);
+      view.setUint16(at + 8, stamp.date, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, compressed.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    writeCommon(localView, 4);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    centralView.setUint16(4, 20, true);
+    writeCommon(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, compressed);
+    directory.push(central);
+    offset += local.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import BRDAssistant from '@/components/BRDAssistant';
+
+const DocumentPage = () => {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <BRDAssistant documentId={id} />
+    </div>
+  );
+};
+
+export default DocumentPage;
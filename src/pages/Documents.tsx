@@ -0,0 +1,12 @@
+import React from 'react';
+import DocumentLibrary from '@/components/DocumentLibrary';
+
+const Documents = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <DocumentLibrary />
+    </div>
+  );
+};
+
+export default Documents;
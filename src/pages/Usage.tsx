@@ -0,0 +1,12 @@
+import React from 'react';
+import UsageDashboard from '@/components/UsageDashboard';
+
+const Usage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <UsageDashboard />
+    </div>
+  );
+};
+
+export default Usage;
@@ -1,5 +1,10 @@
+import type { SectionTreeNode } from '@shared/sectionTree';
 
 export interface Section {
+  id: string;
+  parentId: string | null;
+  position: number;
+  path: string;
   title: string;
   level: number;
   content: string;
@@ -8,19 +13,190 @@ export interface Section {
   endIndex?: number;
 }
 
+export type SectionNode = SectionTreeNode<Section>;
+
 export interface AIEditRequest {
   prompt: string;
   sections: Section[];
 }
 
-export interface AIEditResponse {
-  sectionsToUpdate: {
-    title: string;
-    reasoning: string;
-  }[];
-  updatedSections: {
+// Defined once as a zod schema shared with the edge function
+export type { AIEditResponse } from '@shared/schemas';
+
+export type ProposedChangeKind = 'update' | 'insert' | 'delete' | 'rename' | 'move';
+
+export interface ProposedSectionChange {
+  id: string;
+  kind: ProposedChangeKind;
+  sectionId: string;
+  title: string;
+  path: string;
+  reasoning: string;
+  description: string;
+  originalContent: string;
+  proposedContent: string;
+}
+
+// How much of a section fitted into the prompt's token budget
+export type SectionContextMode = 'full' | 'truncated' | 'summary' | 'omitted';
+
+// Sections ranked against a prompt, most relevant first, and what of each
+// was sent to the model
+export interface SectionRetrieval {
+  method: 'embedding' | 'keyword';
+  budget: { limit: number; output: number; used: number };
+  sections: {
+    id: string;
     title: string;
-    content: string;
+    path: string;
+    score: number;
+    context: SectionContextMode;
+    tokens: number;
   }[];
+}
+
+export interface PendingEdit {
+  id: string;
+  prompt: string;
+  changes: ProposedSectionChange[];
   summaryOfChanges: string[];
+  retrieval?: SectionRetrieval;
+}
+
+// Progress events streamed by the edge function while an AI edit is proposed
+// or applied
+export type EditStage =
+  | 'context'
+  | 'retrieving'
+  | 'drafting'
+  | 'validating'
+  | 'saving'
+  | 'patching'
+  | 'summarizing'
+  | 'committing';
+
+export interface EditDraft {
+  sectionId: string;
+  title: string;
+  content: string;
+}
+
+export interface EditProgress {
+  stage: EditStage;
+  message: string;
+  retrieval: SectionRetrieval | null;
+  selectedSections: { id: string; title: string }[];
+  drafts: EditDraft[];
+}
+
+export type AIEditStatus = 'pending' | 'applied' | 'rejected' | 'reverted';
+
+export interface AIEditRecord {
+  id: string;
+  prompt: string;
+  status: AIEditStatus;
+  createdAt: string;
+  revertedAt?: string;
+  summaryOfChanges: string[];
+  sectionTitles: string[];
+}
+
+export type VersionSource = 'upload' | 'manual' | 'ai_edit' | 'revert';
+
+export interface DocumentVersion {
+  id: string;
+  versionNumber: number;
+  content: string;
+  source: VersionSource;
+  author?: string;
+  message?: string;
+  createdAt: string;
+}
+
+export interface DocumentSummary {
+  id: string;
+  filename: string;
+  createdAt: string;
+  updatedAt: string;
+  sectionCount: number;
+  lastAIEditAt?: string;
+  lastAIEditPrompt?: string;
+}
+
+// Summaries reused from the content-hash cache vs. generated by the LLM
+export interface SummaryCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Background summarization of an uploaded document
+export interface ProcessingJob {
+  id: string;
+  documentId: string;
+  status: ProcessingJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  summaryCache: SummaryCacheStats;
+}
+
+export type ChatRole = 'user' | 'assistant';
+
+// A turn in a document's assistant thread. Assistant turns that proposed an
+// edit carry its changes; the edit's current status comes from the edit history.
+export interface ChatThreadMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  createdAt: string;
+  editId?: string;
+  changes?: ProposedSectionChange[];
+  summaryOfChanges?: string[];
+  retrieval?: SectionRetrieval;
+}
+
+// Character range in the document content
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A verbatim passage backing an answer; range is null when the quote could
+// not be located in the current content
+export interface Citation {
+  sectionId: string;
+  title: string;
+  path: string;
+  quote: string;
+  range: TextRange | null;
+}
+
+export interface DocumentAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  retrieval: SectionRetrieval;
+}
+
+// LLM spend for one day, document, action and model
+export interface UsageDay {
+  day: string;
+  documentId: string | null;
+  filename: string | null;
+  action: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// Calendar-month budget limits in USD (null when unlimited) and spend so far
+export interface UsageLimits {
+  periodStart: string;
+  limits: { total: number | null; perDocument: number | null; perUser: number | null };
+  spent: { total: number; user: number | null };
 }
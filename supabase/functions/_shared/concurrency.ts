@@ -0,0 +1,30 @@
+// Runs `fn` over `items` with at most `limit` calls in flight, preserving the
+// order of results. After a rejection no new calls are started and the whole
+// map rejects once the calls already in flight settle.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  const settled = await Promise.allSettled(workers);
+  const rejection = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejection) throw rejection.reason;
+  return results;
+}
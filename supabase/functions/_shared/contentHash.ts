@@ -0,0 +1,23 @@
+// Content hashing for the summary cache. Normalization ignores differences
+// that do not change what a section says (line endings, trailing spaces,
+// runs of blank lines), so re-uploads with cosmetic changes still hit.
+
+export function normalizeSectionContent(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Hex-encoded SHA-256 of the normalized content. Uses Web Crypto, which both
+// Deno and the browser provide.
+export async function hashSectionContent(content: string): Promise<string> {
+  const bytes = new TextEncoder().encode(normalizeSectionContent(content));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
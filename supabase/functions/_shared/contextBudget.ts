@@ -0,0 +1,118 @@
+// Packs document sections into a prompt within a token budget. Every section
+// keeps its outline entry (id, number, title) so the model can still place
+// and move sections around it; what varies is how much of its text is sent.
+
+export type ContextMode = 'full' | 'truncated' | 'summary' | 'omitted';
+
+export interface ContextSection {
+  id: string;
+  parent_id: string | null;
+  path: string;
+  title: string;
+  content: string;
+  summary: string | null;
+}
+
+export interface PackedSection {
+  id: string;
+  mode: ContextMode;
+  tokens: number;
+}
+
+export interface PackedContext {
+  text: string;
+  limit: number;
+  used: number;
+  sections: PackedSection[];
+}
+
+// A truncated section shorter than this is not worth sending; its summary is
+// used instead.
+const MIN_TRUNCATED_TOKENS = 150;
+const CHARS_PER_TOKEN = 4;
+const TRUNCATION_MARKER = '\n[…truncated]';
+const OMITTED = 'Content: (omitted)';
+
+// Rough count for budgeting without shipping a tokenizer: about four
+// characters per token for English, one per character for scripts written
+// without spaces.
+export function estimateTokens(text: string): number {
+  const wide = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g) ?? []).length;
+  return Math.ceil((text.length - wide) / CHARS_PER_TOKEN) + wide;
+}
+
+// `rankedIds` lists sections most relevant first. The first `fullLimit` of
+// them get their content, cut to fit when needed; the rest get their summary
+// while it fits. Sections are written out in document order.
+export function packSectionContext(
+  sections: ContextSection[],
+  rankedIds: string[],
+  fullLimit: number,
+  limit: number
+): PackedContext {
+  const headers = new Map(sections.map(s => [
+    s.id,
+    `Id: ${s.id}\nSection: ${s.path} "${s.title}"${s.parent_id ? ` (parent: ${s.parent_id})` : ''}`
+  ]));
+  const bodies = new Map<string, { mode: ContextMode; text: string }>();
+  // Every section starts out omitted; sending more of it replaces that cost
+  const omittedTokens = estimateTokens(OMITTED);
+  let used = sections.reduce((sum, s) => sum + estimateTokens(headers.get(s.id)!) + 1 + omittedTokens, 0);
+
+  const byId = new Map(sections.map(s => [s.id, s]));
+  const ranked = [
+    ...rankedIds.filter(id => byId.has(id)),
+    ...sections.map(s => s.id).filter(id => !rankedIds.includes(id)),
+  ];
+
+  ranked.forEach((id, rank) => {
+    const section = byId.get(id)!;
+    const remaining = limit - used + omittedTokens;
+
+    if (rank < fullLimit) {
+      const full = `Content:\n${section.content}`;
+      if (estimateTokens(full) <= remaining) {
+        bodies.set(id, { mode: 'full', text: full });
+        used += estimateTokens(full) - omittedTokens;
+        return;
+      }
+      if (remaining >= MIN_TRUNCATED_TOKENS) {
+        const text = `Content:\n${truncateToTokens(section.content, remaining - estimateTokens(`Content:\n${TRUNCATION_MARKER}`))}${TRUNCATION_MARKER}`;
+        bodies.set(id, { mode: 'truncated', text });
+        used += estimateTokens(text) - omittedTokens;
+        return;
+      }
+    }
+
+    if (section.summary) {
+      const text = `Summary: ${section.summary}`;
+      if (estimateTokens(text) <= remaining) {
+        bodies.set(id, { mode: 'summary', text });
+        used += estimateTokens(text) - omittedTokens;
+        return;
+      }
+    }
+
+    bodies.set(id, { mode: 'omitted', text: OMITTED });
+  });
+
+  return {
+    text: sections.map(s => `${headers.get(s.id)}\n${bodies.get(s.id)!.text}\n`).join('\n'),
+    limit,
+    used,
+    sections: sections.map(s => ({
+      id: s.id,
+      mode: bodies.get(s.id)!.mode,
+      tokens: estimateTokens(`${headers.get(s.id)}\n${bodies.get(s.id)!.text}`),
+    })),
+  };
+}
+
+// Cuts at the last line or sentence break that fits, so the model does not
+// see half a requirement.
+function truncateToTokens(text: string, tokens: number): string {
+  let cut = text.slice(0, Math.max(0, tokens) * CHARS_PER_TOKEN);
+  while (cut.length > 0 && estimateTokens(cut) > tokens) cut = cut.slice(0, -CHARS_PER_TOKEN);
+  const boundary = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf('. '));
+  return boundary > cut.length / 2 ? cut.slice(0, boundary + 1).trimEnd() : cut.trimEnd();
+}
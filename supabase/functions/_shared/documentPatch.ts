@@ -0,0 +1,295 @@
+// Applies section-level operations to a Markdown document. The document is
+// cut into one block per section (heading lines + body lines) and nested by
+// the section tree, operations rearrange the blocks, and the result is
+// serialized and re-parsed so line ranges and outline numbers are recomputed
+// from the new text instead of being patched by hand.
+
+import { parseMarkdown, splitLines, trimBlankLines } from './markdown.ts';
+import { buildSectionTree, createSectionId, IdentifiedSection, TreeSection } from './sectionTree.ts';
+
+// parentId null means top level; afterSectionId null means first position.
+export type PatchOperation =
+  | { type: 'replace'; sectionId: string; content: string }
+  | { type: 'rename'; sectionId: string; title: string }
+  | { type: 'delete'; sectionId: string }
+  | {
+      type: 'insert';
+      sectionId?: string;
+      title: string;
+      content: string;
+      parentId: string | null;
+      afterSectionId: string | null;
+      level?: number;
+    }
+  | { type: 'move'; sectionId: string; parentId: string | null; afterSectionId: string | null; level?: number }
+  // Re-inserts a deleted subtree verbatim; produced only as the inverse of a delete.
+  | { type: 'restore'; markdown: string; sectionIds: string[]; parentId: string | null; afterSectionId: string | null };
+
+export interface PatchResult {
+  content: string;
+  sections: TreeSection[];
+  // One list per input operation; applying them in reverse order undoes it
+  inverses: PatchOperation[][];
+}
+
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+interface Block {
+  id: string;
+  level: number;
+  title: string;
+  heading: string[];
+  body: string[];
+  children: Block[];
+  parent: Block | null;
+  // Blocks the patch created or moved get a blank line before their heading
+  touched: boolean;
+  // Blocks whose body the patch replaced get a blank line before the next
+  // heading, so new text never runs into a setext title
+  replaced: boolean;
+}
+
+const ROOT_ID = '__root__';
+
+export function applyDocumentPatch(
+  content: string,
+  knownSections: IdentifiedSection[],
+  operations: PatchOperation[]
+): PatchResult {
+  const lines = splitLines(content);
+  const parsed = parseMarkdown(content);
+  const tree = buildSectionTree(parsed.sections, knownSections);
+
+  const root: Block = {
+    id: ROOT_ID, level: 0, title: '', heading: [], body: [], children: [], parent: null, touched: false, replaced: false
+  };
+  const blocks = new Map<string, Block>();
+  tree.forEach(section => {
+    const parent = section.parentId ? blocks.get(section.parentId)! : root;
+    const block: Block = {
+      id: section.id,
+      level: section.level,
+      title: section.title,
+      heading: lines.slice(section.startIndex, section.headingEndIndex + 1),
+      body: lines.slice(section.headingEndIndex + 1, section.endIndex + 1),
+      children: [],
+      parent,
+      touched: false,
+      replaced: false,
+    };
+    parent.children.push(block);
+    blocks.set(block.id, block);
+  });
+
+  // Front matter and blank lines before the first section are kept as-is.
+  const prefix = lines.slice(0, tree.length > 0 ? tree[0].startIndex : lines.length);
+
+  const inverses = operations.map(operation => applyOperation(operation, root, blocks));
+
+  const output = [...prefix];
+  const order: IdentifiedSection[] = [];
+  let previous: Block | null = null;
+  const emit = (block: Block) => {
+    const separate = block.touched || previous?.replaced;
+    if (separate && output.length > 0 && output[output.length - 1].trim()) {
+      output.push('');
+    }
+    output.push(...block.heading, ...block.body);
+    order.push({ id: block.id, title: block.title, level: block.level });
+    previous = block;
+    block.children.forEach(emit);
+  };
+  root.children.forEach(emit);
+
+  const newContent = output.join('\n');
+  return {
+    content: newContent,
+    sections: buildSectionTree(parseMarkdown(newContent).sections, order),
+    inverses,
+  };
+}
+
+function applyOperation(operation: PatchOperation, root: Block, blocks: Map<string, Block>): PatchOperation[] {
+  const find = (id: string) => {
+    const block = blocks.get(id);
+    if (!block) throw new PatchError(`Section ${id} does not exist`);
+    return block;
+  };
+  const findParent = (id: string | null) => (id ? find(id) : root);
+
+  switch (operation.type) {
+    case 'replace': {
+      const block = find(operation.sectionId);
+      const previous = trimBlankLines(block.body);
+      block.body = withSpacing(block.body, operation.content);
+      block.replaced = true;
+      return [{ type: 'replace', sectionId: block.id, content: previous }];
+    }
+
+    case 'rename': {
+      const block = find(operation.sectionId);
+      if (block.level === 0) throw new PatchError('The preamble cannot be renamed');
+      const previous = block.title;
+      block.title = operation.title;
+      block.heading = [atxHeading(block.level, block.title)];
+      return [{ type: 'rename', sectionId: block.id, title: previous }];
+    }
+
+    case 'delete': {
+      const block = find(operation.sectionId);
+      const location = detach(block);
+      const removed = flatten(block);
+      removed.forEach(b => blocks.delete(b.id));
+      return [{
+        type: 'restore',
+        markdown: removed.flatMap(b => [...b.heading, ...b.body]).join('\n'),
+        sectionIds: removed.map(b => b.id),
+        ...location,
+      }];
+    }
+
+    case 'insert': {
+      const parent = findParent(operation.parentId);
+      const level = operation.level ?? childLevel(parent);
+      const block: Block = {
+        id: operation.sectionId ?? createSectionId(),
+        level,
+        title: operation.title,
+        heading: [atxHeading(level, operation.title)],
+        body: ['', ...operation.content.split('\n'), ''],
+        children: [],
+        parent,
+        touched: true,
+        replaced: false,
+      };
+      if (blocks.has(block.id)) throw new PatchError(`Section ${block.id} already exists`);
+      attach(block, parent, operation.afterSectionId);
+      blocks.set(block.id, block);
+      return [{ type: 'delete', sectionId: block.id }];
+    }
+
+    case 'move': {
+      const block = find(operation.sectionId);
+      const parent = findParent(operation.parentId);
+      if (flatten(block).includes(parent)) {
+        throw new PatchError(`Section "${block.title}" cannot be moved into itself`);
+      }
+      const previousLevel = block.level;
+      const location = detach(block);
+      relevel(block, operation.level ?? childLevel(parent));
+      block.touched = true;
+      attach(block, parent, operation.afterSectionId);
+      return [{ type: 'move', sectionId: block.id, ...location, level: previousLevel }];
+    }
+
+    case 'restore': {
+      const parent = findParent(operation.parentId);
+      const restored = blocksFromMarkdown(operation.markdown, operation.sectionIds);
+      restored.forEach(block => {
+        block.parent = block.parent ?? parent;
+        blocks.set(block.id, block);
+      });
+      const top = restored.filter(block => block.parent === parent);
+      let after = operation.afterSectionId;
+      top.forEach(block => {
+        block.touched = true;
+        attach(block, parent, after);
+        after = block.id;
+      });
+      return top.map(block => ({ type: 'delete', sectionId: block.id }) as PatchOperation).reverse();
+    }
+  }
+}
+
+function detach(block: Block): { parentId: string | null; afterSectionId: string | null } {
+  const siblings = block.parent!.children;
+  const index = siblings.indexOf(block);
+  siblings.splice(index, 1);
+  const before = siblings[index - 1];
+  return {
+    parentId: block.parent!.id === ROOT_ID ? null : block.parent!.id,
+    afterSectionId: before && before.level > 0 ? before.id : null,
+  };
+}
+
+// A missing or foreign anchor appends at the end of the parent instead of failing.
+function attach(block: Block, parent: Block, afterSectionId: string | null) {
+  block.parent = parent;
+  const siblings = parent.children;
+  let index: number;
+  if (afterSectionId) {
+    const anchor = siblings.findIndex(sibling => sibling.id === afterSectionId);
+    index = anchor === -1 ? siblings.length : anchor + 1;
+  } else {
+    // "First" still comes after the preamble
+    index = siblings.findIndex(sibling => sibling.level > 0);
+    if (index === -1) index = siblings.length;
+  }
+  siblings.splice(index, 0, block);
+}
+
+// New children take the level of their existing siblings, or one below the parent.
+function childLevel(parent: Block): number {
+  const sibling = parent.children.find(child => child.level > 0);
+  return Math.min(6, sibling ? sibling.level : parent.level + 1);
+}
+
+function relevel(block: Block, level: number) {
+  const delta = level - block.level;
+  if (delta === 0) return;
+  flatten(block).forEach(b => {
+    b.level = Math.max(1, Math.min(6, b.level + delta));
+    b.heading = [atxHeading(b.level, b.title)];
+  });
+}
+
+function flatten(block: Block): Block[] {
+  return [block, ...block.children.flatMap(flatten)];
+}
+
+function blocksFromMarkdown(markdown: string, ids: string[]): Block[] {
+  const lines = splitLines(markdown);
+  const sections = parseMarkdown(markdown).sections.filter(section => section.level > 0);
+  const stack: Block[] = [];
+
+  return sections.map((section, index) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop();
+    const parent = stack[stack.length - 1] ?? null;
+    const block: Block = {
+      id: ids[index] ?? createSectionId(),
+      level: section.level,
+      title: section.title,
+      heading: lines.slice(section.startIndex, section.headingEndIndex + 1),
+      body: lines.slice(section.headingEndIndex + 1, section.endIndex + 1),
+      children: [],
+      parent,
+      touched: false,
+      replaced: false,
+    };
+    parent?.children.push(block);
+    stack.push(block);
+    return block;
+  });
+}
+
+// Keeps the blank lines that surrounded the old body around the new one.
+function withSpacing(body: string[], content: string): string[] {
+  let leading = 0;
+  while (leading < body.length && !body[leading].trim()) leading++;
+  let trailing = 0;
+  while (trailing < body.length - leading && !body[body.length - 1 - trailing].trim()) trailing++;
+  return [
+    ...new Array(leading).fill(''),
+    ...(content ? content.split('\n') : []),
+    ...new Array(trailing).fill(''),
+  ];
+}
+
+function atxHeading(level: number, title: string): string {
+  return `${'#'.repeat(level)} ${title}`;
+}
@@ -0,0 +1,88 @@
+// Reads the section selection and section drafts out of an AI edit response
+// while it is still streaming. The partial text is not valid JSON yet, so
+// this scans for the known keys instead of parsing; the complete response is
+// still validated with `validateAIEditResponse` once it has arrived.
+
+export interface DraftSection {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export interface EditDrafts {
+  selected: { id: string; title: string }[];
+  drafts: DraftSection[];
+}
+
+const TOP_LEVEL_KEYS = ['sectionsToUpdate', 'updatedSections', 'operations', 'summaryOfChanges'];
+const ENTRY_KEY = /"(id|title|content)"\s*:\s*"/g;
+
+export function extractEditDrafts(partial: string): EditDrafts {
+  return {
+    selected: scanEntries(partial, 'sectionsToUpdate').map(({ id, title }) => ({ id, title })),
+    drafts: scanEntries(partial, 'updatedSections'),
+  };
+}
+
+function scanEntries(text: string, arrayKey: string): DraftSection[] {
+  const start = text.indexOf(`"${arrayKey}"`);
+  if (start === -1) return [];
+
+  const end = TOP_LEVEL_KEYS
+    .filter(key => key !== arrayKey)
+    .map(key => text.indexOf(`"${key}"`, start))
+    .filter(index => index > start)
+    .reduce((min, index) => Math.min(min, index), text.length);
+
+  const entries: DraftSection[] = [];
+  let position = start;
+  while (position < end) {
+    ENTRY_KEY.lastIndex = position;
+    const match = ENTRY_KEY.exec(text);
+    if (!match || match.index >= end) break;
+
+    const value = readJsonString(text, match.index + match[0].length);
+    if (match[1] === 'id') {
+      entries.push({ id: value.value, title: '', content: '' });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1][match[1] as 'title' | 'content'] = value.value;
+    }
+    if (!value.complete) break;
+    position = value.end;
+  }
+
+  return entries;
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+// Decodes a JSON string body starting after its opening quote. An unfinished
+// string (or escape) at the end of the text yields what has arrived so far.
+function readJsonString(text: string, start: number): { value: string; complete: boolean; end: number } {
+  let value = '';
+  let i = start;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') return { value, complete: true, end: i + 1 };
+    if (char !== '\\') {
+      value += char;
+      i++;
+      continue;
+    }
+
+    const escape = text[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+    } else {
+      value += ESCAPES[escape] ?? escape;
+      i += 2;
+    }
+  }
+  return { value, complete: false, end: text.length };
+}
@@ -0,0 +1,159 @@
+// Embedding provider layer, the counterpart of llm.ts for section retrieval.
+// Which provider is used is decided by EMBEDDING_PROVIDER.
+
+import type { EnvReader, TokenUsage } from './llm.ts';
+import { tokenize } from './retrieval.ts';
+
+export interface EmbeddingProvider {
+  name: string;
+  // Stored with every embedding; vectors from different models are not comparable
+  model: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<Embeddings>;
+}
+
+export interface Embeddings {
+  // One vector per input text, in input order
+  vectors: number[][];
+  // null when the provider did not report usage
+  usage: TokenUsage | null;
+}
+
+interface OpenAICompatibleEmbeddingConfig {
+  name: string;
+  url: string;
+  model: string;
+  headers: Record<string, string>;
+  // Azure routes by deployment and rejects a `model` field in the body
+  sendModel?: boolean;
+}
+
+export function createOpenAICompatibleEmbeddingProvider(config: OpenAICompatibleEmbeddingConfig): EmbeddingProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    async embed(texts, signal) {
+      if (texts.length === 0) return { vectors: [], usage: null };
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          ...config.headers,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(config.sendModel === false ? {} : { model: config.model }),
+          input: texts,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${config.name} embeddings API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+        throw new Error(`Invalid embeddings response from ${config.name}`);
+      }
+
+      return {
+        vectors: [...data.data]
+          .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+          .map((item: { embedding: number[] }) => item.embedding),
+        usage: typeof data.usage?.prompt_tokens === 'number'
+          ? { promptTokens: data.usage.prompt_tokens, completionTokens: 0 }
+          : null,
+      };
+    },
+  };
+}
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+
+// Offline provider: words and word pairs are hashed into a fixed-size vector
+// (the "hashing trick"). It only captures shared vocabulary, not meaning, but
+// needs no model, network or API key.
+export function createHashingEmbeddingProvider(dimensions = DEFAULT_HASHING_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'hashing',
+    model: `hashing-${dimensions}`,
+    async embed(texts) {
+      const vectors = texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const tokens = tokenize(text);
+        const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+        features.forEach(feature => {
+          const hash = fnv1a(feature);
+          vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+        });
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+        return vector.map(value => value / norm);
+      });
+      return { vectors, usage: null };
+    },
+  };
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createEmbeddingProviderFromEnv(env: EnvReader): EmbeddingProvider {
+  const providerName = (env('EMBEDDING_PROVIDER') ?? 'hashing').toLowerCase();
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return createOpenAICompatibleEmbeddingProvider({
+        name: 'OpenAI',
+        url: `${env('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1'}/embeddings`,
+        model: env('OPENAI_EMBEDDING_MODEL') ?? 'text-embedding-3-small',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+      });
+    }
+    case 'azure': {
+      const endpoint = env('AZURE_OPENAI_ENDPOINT');
+      const apiKey = env('AZURE_OPENAI_API_KEY');
+      const deployment = env('AZURE_OPENAI_EMBEDDING_DEPLOYMENT');
+      if (!endpoint || !apiKey || !deployment) {
+        throw new Error('Azure OpenAI embeddings require AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_EMBEDDING_DEPLOYMENT');
+      }
+      const apiVersion = env('AZURE_OPENAI_API_VERSION') ?? '2024-06-01';
+      return createOpenAICompatibleEmbeddingProvider({
+        name: 'Azure OpenAI',
+        url: `${endpoint.replace(/\/$/, '')}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+        model: deployment,
+        headers: { 'api-key': apiKey },
+        sendModel: false,
+      });
+    }
+    case 'local': {
+      // Any OpenAI-compatible server with an embeddings endpoint, e.g. Ollama
+      const apiKey = env('LOCAL_LLM_API_KEY');
+      const url = env('LOCAL_EMBEDDING_URL') ?? env('LOCAL_LLM_URL') ?? 'http://localhost:11434/v1';
+      return createOpenAICompatibleEmbeddingProvider({
+        name: 'Local embeddings',
+        url: `${url.replace(/\/$/, '')}/embeddings`,
+        model: env('LOCAL_EMBEDDING_MODEL') ?? 'nomic-embed-text',
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      });
+    }
+    case 'hashing': {
+      const dimensions = Number(env('EMBEDDING_DIMENSIONS'));
+      return createHashingEmbeddingProvider(
+        Number.isInteger(dimensions) && dimensions > 0 ? dimensions : DEFAULT_HASHING_DIMENSIONS
+      );
+    }
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+}
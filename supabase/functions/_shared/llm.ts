@@ -0,0 +1,221 @@
+// LLM provider layer for the edge functions. Every provider speaks the same
+// chat-completion contract; which one is used is decided by LLM_PROVIDER.
+
+import { readServerSentEvents } from './sse.ts';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export type LLMTask = 'summary' | 'edit' | 'answer';
+
+export interface CompletionRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // When set, the completion is streamed and each chunk is passed here as it
+  // arrives; `complete` still resolves with the full text.
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface Completion {
+  text: string;
+  // null when the provider did not report usage
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+export type EnvReader = (key: string) => string | undefined;
+
+interface OpenAICompatibleConfig {
+  name: string;
+  url: string;
+  model: string;
+  headers: Record<string, string>;
+  // Azure routes by deployment and rejects a `model` field in the body
+  sendModel?: boolean;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(request) {
+      const stream = !!request.onToken;
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          ...config.headers,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(config.sendModel === false ? {} : { model: config.model }),
+          messages: request.messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 3000,
+          // Usage arrives in a final chunk with no choices
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${config.name} API error (${response.status}): ${errorText}`);
+      }
+
+      if (stream && response.body) {
+        let text = '';
+        let usage: TokenUsage | null = null;
+        for await (const event of readServerSentEvents(response.body, request.signal)) {
+          if (event.data === '[DONE]') break;
+          const chunk = JSON.parse(event.data);
+          const token = chunk.choices?.[0]?.delta?.content;
+          if (token) {
+            text += token;
+            request.onToken!(token);
+          }
+          if (chunk.usage) usage = toTokenUsage(chunk.usage);
+        }
+        request.signal?.throwIfAborted();
+        return { text: text.trim(), usage };
+      }
+
+      const data = await response.json();
+
+      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+        throw new Error(`Invalid response structure from ${config.name}`);
+      }
+
+      return {
+        text: data.choices[0].message.content.trim(),
+        usage: data.usage ? toTokenUsage(data.usage) : null,
+      };
+    },
+  };
+}
+
+function toTokenUsage(usage: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage {
+  return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+}
+
+export interface ScriptedRule {
+  task?: LLMTask;
+  // Regular expression tested against the last user message
+  match?: string;
+  response: string;
+}
+
+// Deterministic provider for offline development and tests. Rules are tried in
+// order; without a matching rule summaries echo the first sentence of the
+// section, edits propose no changes and questions get a canned answer.
+export function createScriptedProvider(rules: ScriptedRule[] = []): LLMProvider {
+  return {
+    name: 'scripted',
+    model: 'scripted',
+    async complete(request) {
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+      const rule = rules.find(r =>
+        (!r.task || r.task === request.task) && (!r.match || new RegExp(r.match).test(lastUser))
+      );
+      const text = rule ? rule.response : defaultScriptedResponse(request.task, lastUser);
+
+      if (request.onToken) {
+        // Replay in small chunks so streaming consumers see progress
+        for (let i = 0; i < text.length; i += SCRIPTED_CHUNK_LENGTH) {
+          request.signal?.throwIfAborted();
+          request.onToken(text.slice(i, i + SCRIPTED_CHUNK_LENGTH));
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      return { text, usage: null };
+    },
+  };
+}
+
+const SCRIPTED_CHUNK_LENGTH = 16;
+
+function defaultScriptedResponse(task: LLMTask, lastUser: string): string {
+  if (task === 'summary') {
+    const firstSentence = lastUser.replace(/\s+/g, ' ').trim().match(/^.*?[.!?](\s|$)/)?.[0] ?? lastUser;
+    return firstSentence.trim().slice(0, 200);
+  }
+
+  if (task === 'answer') {
+    return JSON.stringify({
+      answer: 'The scripted provider has no answer configured for this question.',
+      citations: [],
+    });
+  }
+
+  return JSON.stringify({
+    sectionsToUpdate: [],
+    updatedSections: [],
+    operations: [],
+    summaryOfChanges: [],
+  });
+}
+
+export function createProviderFromEnv(env: EnvReader): LLMProvider {
+  const providerName = (env('LLM_PROVIDER') ?? 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI',
+        url: `${env('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1'}/chat/completions`,
+        model: env('OPENAI_MODEL') ?? 'gpt-4o-mini',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+      });
+    }
+    case 'azure': {
+      const endpoint = env('AZURE_OPENAI_ENDPOINT');
+      const apiKey = env('AZURE_OPENAI_API_KEY');
+      const deployment = env('AZURE_OPENAI_DEPLOYMENT');
+      if (!endpoint || !apiKey || !deployment) {
+        throw new Error('Azure OpenAI requires AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_DEPLOYMENT');
+      }
+      const apiVersion = env('AZURE_OPENAI_API_VERSION') ?? '2024-06-01';
+      return createOpenAICompatibleProvider({
+        name: 'Azure OpenAI',
+        url: `${endpoint.replace(/\/$/, '')}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+        model: deployment,
+        headers: { 'api-key': apiKey },
+        sendModel: false,
+      });
+    }
+    case 'local': {
+      // Any OpenAI-compatible server: Ollama, llama.cpp, vLLM, LM Studio...
+      const apiKey = env('LOCAL_LLM_API_KEY');
+      return createOpenAICompatibleProvider({
+        name: 'Local LLM',
+        url: `${(env('LOCAL_LLM_URL') ?? 'http://localhost:11434/v1').replace(/\/$/, '')}/chat/completions`,
+        model: env('LOCAL_LLM_MODEL') ?? 'llama3.1',
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      });
+    }
+    case 'scripted': {
+      const script = env('LLM_SCRIPT');
+      return createScriptedProvider(script ? JSON.parse(script) as ScriptedRule[] : []);
+    }
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,224 @@
+// Markdown section parser shared by the browser (via the `@shared` alias) and
+// the ai-brd-processor edge function. Keep this module free of Deno and DOM
+// globals so both runtimes can import it as-is.
+
+export interface MarkdownSection {
+  title: string;
+  level: number;
+  content: string;
+  startIndex: number;
+  // Last line of the heading itself (setext headings span several lines);
+  // startIndex - 1 for the preamble, which has no heading
+  headingEndIndex: number;
+  endIndex: number;
+}
+
+export interface FrontMatter {
+  raw: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface ParsedMarkdown {
+  frontMatter: FrontMatter | null;
+  sections: MarkdownSection[];
+}
+
+interface Fence {
+  char: string;
+  length: number;
+}
+
+interface HeadingBlock {
+  title: string;
+  level: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+// Content that appears before the first heading is kept as a level 0 section
+// so it round-trips through `brd_sections` like every other section.
+export const PREAMBLE_TITLE = 'Preamble';
+export const PREAMBLE_LEVEL = 0;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const FRONT_MATTER_DELIMITERS: Record<string, string[]> = {
+  '---': ['---', '...'],
+  '+++': ['+++'],
+};
+
+export function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+export function parseMarkdown(content: string): ParsedMarkdown {
+  const lines = splitLines(content);
+  const frontMatter = findFrontMatter(lines);
+  const bodyStart = frontMatter ? frontMatter.endIndex + 1 : 0;
+  const headings = findHeadings(lines, bodyStart);
+  const sections: MarkdownSection[] = [];
+
+  const firstHeadingIndex = headings.length > 0 ? headings[0].startIndex : lines.length;
+  if (firstHeadingIndex > bodyStart) {
+    const preamble = trimBlankLines(lines.slice(bodyStart, firstHeadingIndex));
+    if (preamble) {
+      sections.push({
+        title: PREAMBLE_TITLE,
+        level: PREAMBLE_LEVEL,
+        content: preamble,
+        startIndex: bodyStart,
+        headingEndIndex: bodyStart - 1,
+        endIndex: firstHeadingIndex - 1,
+      });
+    }
+  }
+
+  headings.forEach((heading, i) => {
+    const next = headings[i + 1];
+    const endIndex = next ? next.startIndex - 1 : lines.length - 1;
+    sections.push({
+      title: heading.title,
+      level: heading.level,
+      content: trimBlankLines(lines.slice(heading.endIndex + 1, endIndex + 1)),
+      startIndex: heading.startIndex,
+      headingEndIndex: heading.endIndex,
+      endIndex,
+    });
+  });
+
+  return { frontMatter, sections };
+}
+
+export function parseMarkdownSections(content: string): MarkdownSection[] {
+  return parseMarkdown(content).sections;
+}
+
+function findFrontMatter(lines: string[]): FrontMatter | null {
+  const closers = FRONT_MATTER_DELIMITERS[lines[0]?.trimEnd()];
+  if (!closers) return null;
+
+  for (let i = 1; i < lines.length; i++) {
+    if (closers.includes(lines[i].trimEnd())) {
+      return {
+        raw: lines.slice(1, i).join('\n'),
+        startIndex: 0,
+        endIndex: i,
+      };
+    }
+  }
+
+  // An unterminated delimiter is just a thematic break, not front matter.
+  return null;
+}
+
+function findHeadings(lines: string[], fromIndex: number): HeadingBlock[] {
+  const headings: HeadingBlock[] = [];
+  let fence: Fence | null = null;
+  let paragraphStart: number | null = null;
+
+  for (let index = fromIndex; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (fence) {
+      if (closesFence(line, fence)) fence = null;
+      continue;
+    }
+
+    fence = openingFence(line);
+    if (fence) {
+      paragraphStart = null;
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      headings.push({
+        title: (atx[2] ?? '').trim(),
+        level: atx[1].length,
+        startIndex: index,
+        endIndex: index,
+      });
+      paragraphStart = null;
+      continue;
+    }
+
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && paragraphStart !== null) {
+      headings.push({
+        title: lines
+          .slice(paragraphStart, index)
+          .map(l => l.trim())
+          .join(' '),
+        level: underline[1][0] === '=' ? 1 : 2,
+        startIndex: paragraphStart,
+        endIndex: index,
+      });
+      paragraphStart = null;
+      continue;
+    }
+
+    if (isParagraphLine(line)) {
+      if (paragraphStart === null) paragraphStart = index;
+    } else {
+      paragraphStart = null;
+    }
+  }
+
+  return headings;
+}
+
+function openingFence(line: string): Fence | null {
+  const match = line.match(FENCE_OPEN);
+  // Backtick fences may not carry backticks in their info string.
+  if (!match || (match[1][0] === '`' && match[2].includes('`'))) return null;
+  return { char: match[1][0], length: match[1].length };
+}
+
+function closesFence(line: string, fence: Fence): boolean {
+  const closing = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return !!closing && closing[1][0] === fence.char && closing[1].length >= fence.length;
+}
+
+// Index of the line opening a code fence that is never closed, or null. An
+// unclosed fence runs to the end of the document and hides every heading
+// after it.
+export function findUnclosedFence(content: string): number | null {
+  let fence: Fence | null = null;
+  let openedAt: number | null = null;
+
+  splitLines(content).forEach((line, index) => {
+    if (fence) {
+      if (closesFence(line, fence)) {
+        fence = null;
+        openedAt = null;
+      }
+      return;
+    }
+    fence = openingFence(line);
+    if (fence) openedAt = index;
+  });
+
+  return openedAt;
+}
+
+// Only plain paragraph text can become a setext heading; list items, quotes,
+// tables, indented code and thematic breaks cannot.
+function isParagraphLine(line: string): boolean {
+  if (!line.trim()) return false;
+  if (/^ {4,}|^\t/.test(line)) return false;
+  const trimmed = line.trim();
+  if (/^([-*+]|\d{1,9}[.)])(\s|$)/.test(trimmed)) return false;
+  if (/^(>|\|)/.test(trimmed)) return false;
+  if (/^(\*[ \t]*){3,}$|^(_[ \t]*){3,}$|^(-[ \t]*){3,}$/.test(trimmed)) return false;
+  return true;
+}
+
+export function trimBlankLines(lines: string[]): string {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end).join('\n');
+}
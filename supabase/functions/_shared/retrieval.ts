@@ -0,0 +1,89 @@
+// Picks the sections most relevant to a question or prompt. Sections are
+// ranked by embedding similarity when embeddings are available; keyword
+// ranking is BM25 over section titles and bodies, with titles counting double
+// because a matching heading is a strong signal in a BRD.
+
+export interface RetrievableSection {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export interface RankedSection<T extends RetrievableSection> {
+  section: T;
+  score: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'what', 'does', 'did', 'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there',
+  'their', 'about', 'which', 'when', 'where', 'who', 'how', 'why', 'say', 'says', 'into', 'than', 'then',
+  'them', 'these', 'those', 'been', 'being', 'its', 'also', 'should', 'must', 'may', 'brd', 'document',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+// Sections with no query term in common are left out.
+export function rankSectionsByKeywords<T extends RetrievableSection>(query: string, sections: T[]): RankedSection<T>[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || sections.length === 0) return [];
+
+  const documents = sections.map(section => {
+    const tokens = [...tokenize(section.title), ...tokenize(section.title), ...tokenize(section.content)];
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+    return { section, length: tokens.length, frequencies };
+  });
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+  const inverseFrequency = new Map(terms.map(term => {
+    const containing = documents.filter(doc => doc.frequencies.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return documents
+    .map(doc => ({
+      section: doc.section,
+      score: terms.reduce((score, term) => {
+        const frequency = doc.frequencies.get(term) ?? 0;
+        if (frequency === 0) return score;
+        const norm = frequency + K1 * (1 - B + B * (doc.length / averageLength));
+        return score + inverseFrequency.get(term)! * (frequency * (K1 + 1)) / norm;
+      }, 0),
+    }))
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Every section with an embedding is ranked, most similar first.
+export function rankSectionsByEmbedding<T extends RetrievableSection>(
+  queryEmbedding: number[],
+  sections: T[],
+  embeddings: Map<string, number[]>
+): RankedSection<T>[] {
+  return sections
+    .filter(section => embeddings.has(section.id))
+    .map(section => ({ section, score: cosineSimilarity(queryEmbedding, embeddings.get(section.id)!) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,219 @@
+// Contracts between the edge function, the model and the browser. `zod` is
+// resolved from node_modules in the browser and through the function's
+// deno.json import map in Deno.
+
+import { z } from 'zod';
+import { findUnclosedFence, parseMarkdownSections } from './markdown.ts';
+
+const sectionId = z.string().min(1);
+const location = {
+  // null places the section at the top level; omitted keeps the anchor's parent
+  parentId: sectionId.nullable().optional(),
+  // null places the section first among its siblings
+  afterSectionId: sectionId.nullable().optional(),
+};
+
+export const structuralOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('insert'),
+    title: z.string().min(1),
+    content: z.string(),
+    ...location,
+    reasoning: z.string(),
+  }).strict(),
+  z.object({
+    type: z.literal('delete'),
+    sectionId,
+    reasoning: z.string(),
+  }).strict(),
+  z.object({
+    type: z.literal('rename'),
+    sectionId,
+    newTitle: z.string().min(1),
+    reasoning: z.string(),
+  }).strict(),
+  z.object({
+    type: z.literal('move'),
+    sectionId,
+    ...location,
+    reasoning: z.string(),
+  }).strict(),
+]);
+
+export type StructuralOperation = z.infer<typeof structuralOperationSchema>;
+
+export const aiEditResponseSchema = z.object({
+  sectionsToUpdate: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    reasoning: z.string(),
+  }).strict()),
+  updatedSections: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    content: z.string().min(1),
+  }).strict()),
+  operations: z.array(structuralOperationSchema).default([]),
+  summaryOfChanges: z.array(z.string()),
+}).strict();
+
+export type AIEditResponse = z.infer<typeof aiEditResponseSchema>;
+
+// One turn of the document chat: either a plain answer or an edit proposal
+// with a short reply to show in the thread.
+export const chatTurnResponseSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('answer'),
+    answer: z.string().min(1),
+  }).strict(),
+  aiEditResponseSchema.extend({
+    type: z.literal('edit'),
+    reply: z.string(),
+  }),
+]);
+
+export type ChatTurnResponse = z.infer<typeof chatTurnResponseSchema>;
+
+// Read-only answer to a question about the document. Every citation quotes
+// the cited section verbatim so the UI can highlight it.
+export const askResponseSchema = z.object({
+  answer: z.string().min(1),
+  citations: z.array(z.object({
+    sectionId,
+    quote: z.string().min(1),
+  }).strict()),
+}).strict();
+
+export type AskResponse = z.infer<typeof askResponseSchema>;
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+// Validates raw model output. A surrounding ```json fence is tolerated; any
+// other text around the JSON object is an error so it can be fed back to the
+// model. Section ids must refer to sections that exist in the document, and
+// only sections whose content the model was shown may be rewritten.
+export function validateAIEditResponse(
+  raw: string,
+  knownSectionIds: Iterable<string>,
+  editableSectionIds: Iterable<string> = knownSectionIds
+): ValidationResult<AIEditResponse> {
+  return validateModelResponse(raw, aiEditResponseSchema, data => [
+    ...findInvalidSectionIds(data, knownSectionIds, editableSectionIds),
+    ...findInvalidSectionContent(data),
+  ]);
+}
+
+export function validateChatTurnResponse(
+  raw: string,
+  knownSectionIds: Iterable<string>,
+  editableSectionIds: Iterable<string> = knownSectionIds
+): ValidationResult<ChatTurnResponse> {
+  return validateModelResponse(raw, chatTurnResponseSchema, data =>
+    data.type === 'edit'
+      ? [...findInvalidSectionIds(data, knownSectionIds, editableSectionIds), ...findInvalidSectionContent(data)]
+      : []
+  );
+}
+
+export function validateAskResponse(
+  raw: string,
+  sections: { id: string; content: string }[]
+): ValidationResult<AskResponse> {
+  return validateModelResponse(raw, askResponseSchema, data => {
+    const errors: string[] = [];
+    data.citations.forEach((citation, i) => {
+      const section = sections.find(s => s.id === citation.sectionId);
+      if (!section) {
+        errors.push(`citations.${i}.sectionId: "${citation.sectionId}" is not one of the provided sections`);
+      } else if (!section.content.includes(citation.quote)) {
+        errors.push(`citations.${i}.quote: not found verbatim in section "${citation.sectionId}"`);
+      }
+    });
+    return errors;
+  });
+}
+
+function validateModelResponse<T>(
+  raw: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  check: (data: T) => string[]
+): ValidationResult<T> {
+  const text = raw.trim().replace(/^```(?:json)?\s*\n?/, '').replace(/\n?\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+    };
+  }
+
+  const errors = check(parsed.data);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: parsed.data };
+}
+
+function findInvalidSectionIds(
+  data: AIEditResponse,
+  knownSectionIds: Iterable<string>,
+  editableSectionIds: Iterable<string>
+): string[] {
+  const known = new Set(knownSectionIds);
+  const editable = new Set(editableSectionIds);
+  const errors: string[] = [];
+  data.sectionsToUpdate.forEach((section, i) => {
+    if (!known.has(section.id)) errors.push(`sectionsToUpdate.${i}.id: unknown section id "${section.id}"`);
+  });
+  data.updatedSections.forEach((section, i) => {
+    if (!known.has(section.id)) {
+      errors.push(`updatedSections.${i}.id: unknown section id "${section.id}"`);
+    } else if (!editable.has(section.id)) {
+      errors.push(`updatedSections.${i}.id: the content of section "${section.id}" was not provided, so it cannot be rewritten`);
+    }
+  });
+  data.operations.forEach((operation, i) => {
+    const references: [string, string | null | undefined][] = [
+      ['sectionId', 'sectionId' in operation ? operation.sectionId : undefined],
+      ['parentId', 'parentId' in operation ? operation.parentId : undefined],
+      ['afterSectionId', 'afterSectionId' in operation ? operation.afterSectionId : undefined],
+    ];
+    references.forEach(([field, id]) => {
+      if (id && !known.has(id)) errors.push(`operations.${i}.${field}: unknown section id "${id}"`);
+    });
+  });
+  return errors;
+}
+
+// Section content is spliced under the section's heading and the document is
+// parsed again, so a heading in the content would split off a new section and
+// an unclosed code fence would swallow every heading after it.
+function findInvalidSectionContent(data: AIEditResponse): string[] {
+  const contents: [string, string][] = [
+    ...data.updatedSections.map((section, i): [string, string] => [`updatedSections.${i}.content`, section.content]),
+    ...data.operations.flatMap((operation, i): [string, string][] =>
+      operation.type === 'insert' ? [[`operations.${i}.content`, operation.content]] : []
+    ),
+  ];
+
+  const errors: string[] = [];
+  contents.forEach(([field, content]) => {
+    // The leading newline stops a `---` first line being read as front matter
+    const heading = parseMarkdownSections(`\n${content}`).find(section => section.level > 0);
+    if (heading) {
+      errors.push(`${field}: contains the heading "${heading.title}"; section content must not contain headings, use an insert operation to add a section`);
+    }
+    const fence = findUnclosedFence(content);
+    if (fence !== null) {
+      errors.push(`${field}: the code fence opened on line ${fence + 1} is never closed`);
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,139 @@
+// Section tree model shared by the browser and the edge function. Sections
+// are stored flat in `brd_sections` (parent_id/position/path) and nested on
+// demand with `nestSections`.
+
+import type { MarkdownSection } from './markdown.ts';
+
+export interface TreeSection extends MarkdownSection {
+  id: string;
+  parentId: string | null;
+  position: number;
+  path: string;
+}
+
+export type SectionTreeNode<T extends { id: string; parentId: string | null }> = T & {
+  children: SectionTreeNode<T>[];
+};
+
+export interface IdentifiedSection {
+  id: string;
+  title: string;
+  level: number;
+  path?: string;
+}
+
+export const createSectionId = (): string => crypto.randomUUID();
+
+// Assigns ids, parents and outline numbers ("3.2.1") to a parsed section list.
+// A heading's parent is the closest preceding heading with a lower level, so
+// skipped levels (H1 -> H3) still nest under the H1. Level 0 sections (the
+// preamble) are never numbered and never parent anything.
+export function buildSectionTree(
+  sections: MarkdownSection[],
+  previous: IdentifiedSection[] = []
+): TreeSection[] {
+  const ids = reconcileSectionIds(previous, sections);
+  const result: TreeSection[] = [];
+  const stack: TreeSection[] = [];
+  const childCounts = new Map<string | null, number>();
+
+  sections.forEach((section, index) => {
+    if (section.level === 0) {
+      result.push({ ...section, id: ids[index], parentId: null, position: 0, path: '' });
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1] ?? null;
+    const parentId = parent ? parent.id : null;
+    const position = (childCounts.get(parentId) ?? 0) + 1;
+    childCounts.set(parentId, position);
+
+    const node: TreeSection = {
+      ...section,
+      id: ids[index],
+      parentId,
+      position,
+      path: parent ? `${parent.path}.${position}` : String(position),
+    };
+    result.push(node);
+    stack.push(node);
+  });
+
+  return result;
+}
+
+// Carries ids over from a previous parse so a section keeps its identity across
+// re-parses. Sections are matched by title and level first, then by outline
+// path (which survives a rename); anything unmatched gets a fresh id.
+export function reconcileSectionIds(
+  previous: IdentifiedSection[],
+  next: MarkdownSection[]
+): string[] {
+  const unused = new Set(previous.map(section => section.id));
+  const ids: (string | undefined)[] = new Array(next.length).fill(undefined);
+  const nextPaths = outlinePaths(next);
+
+  next.forEach((section, index) => {
+    const match = previous.find(
+      p => unused.has(p.id) && p.title === section.title && p.level === section.level
+    );
+    if (match) {
+      ids[index] = match.id;
+      unused.delete(match.id);
+    }
+  });
+
+  next.forEach((section, index) => {
+    if (ids[index]) return;
+    const match = previous.find(
+      p => unused.has(p.id) && p.path !== undefined && p.path === nextPaths[index] && p.level === section.level
+    );
+    if (match) {
+      ids[index] = match.id;
+      unused.delete(match.id);
+    }
+  });
+
+  return ids.map(id => id ?? createSectionId());
+}
+
+export function nestSections<T extends { id: string; parentId: string | null }>(
+  sections: T[]
+): SectionTreeNode<T>[] {
+  const nodes = new Map<string, SectionTreeNode<T>>();
+  sections.forEach(section => nodes.set(section.id, { ...section, children: [] }));
+
+  const roots: SectionTreeNode<T>[] = [];
+  sections.forEach(section => {
+    const node = nodes.get(section.id)!;
+    const parent = section.parentId ? nodes.get(section.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+function outlinePaths(sections: MarkdownSection[]): string[] {
+  const stack: { level: number; path: string }[] = [];
+  const counts = new Map<string, number>();
+
+  return sections.map(section => {
+    if (section.level === 0) return '';
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    const parentPath = stack[stack.length - 1]?.path ?? '';
+    const position = (counts.get(parentPath) ?? 0) + 1;
+    counts.set(parentPath, position);
+    const path = parentPath ? `${parentPath}.${position}` : String(position);
+    stack.push({ level: section.level, path });
+    return path;
+  });
+}
@@ -0,0 +1,70 @@
+// Server-sent events: formatting on the edge function side and parsing for
+// both the browser and upstream streaming LLM APIs.
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  const payload = JSON.stringify(data ?? null);
+  return `event: ${event}\ndata: ${payload}\n\n`;
+}
+
+// Yields events as they arrive. Aborting `signal` cancels the underlying
+// stream, which closes the connection and lets the server stop its work.
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => {
+    reader.cancel().catch(() => {
+      // Already closed
+    });
+  };
+  signal?.addEventListener('abort', cancel);
+  if (signal?.aborted) cancel();
+
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const event = parseBlock(block);
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const last = parseBlock(buffer);
+    if (last) yield last;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
+
+function parseBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with ":" are comments (keep-alives)
+    if (!line || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { applyDocumentPatch, PatchError, PatchOperation, PatchResult } from '../documentPatch.ts';
+import { parseMarkdownSections } from '../markdown.ts';
+import { buildSectionTree } from '../sectionTree.ts';
+import { readFixture } from './fixtures.ts';
+
+const original = readFixture('brd.md');
+const sections = buildSectionTree(parseMarkdownSections(original));
+
+function sectionId(title: string): string {
+  const section = sections.find(s => s.title === title);
+  if (!section) throw new Error(`No section titled ${title} in the fixture`);
+  return section.id;
+}
+
+// Every section's range must match a fresh parse of the patched content
+function expectRangesMatchContent(result: PatchResult) {
+  const reparsed = parseMarkdownSections(result.content);
+  expect(result.sections.map(({ title, startIndex, endIndex }) => ({ title, startIndex, endIndex })))
+    .toEqual(reparsed.map(({ title, startIndex, endIndex }) => ({ title, startIndex, endIndex })));
+
+  const lines = result.content.split('\n');
+  result.sections
+    .filter(section => section.level > 0)
+    .forEach(section => expect(lines[section.startIndex]).toContain(section.title));
+}
+
+describe('applyDocumentPatch', () => {
+  it('applies several replacements in one patch', () => {
+    const result = applyDocumentPatch(original, sections, [
+      {
+        type: 'replace',
+        sectionId: sectionId('1. Introduction'),
+        content: 'Why the checkout is being rebuilt.\n\nThe current flow loses a fifth of carts at the payment step.'
+      },
+      {
+        type: 'replace',
+        sectionId: sectionId('2.1 Functional'),
+        content: '- Pay by card\n- Pay by wallet\n- Save a card\n- Remove a saved card'
+      },
+      { type: 'replace', sectionId: sectionId('3. Glossary'), content: 'PSP: payment service provider.\n3DS: 3-D Secure.' },
+    ]);
+
+    expect(result.content).toBe(readFixture('patch-replace-several.expected.md'));
+    expect(result.sections.map(s => s.id)).toEqual(sections.map(s => s.id));
+  });
+
+  it('replaces a parent body that sits before its children without touching them', () => {
+    const result = applyDocumentPatch(original, sections, [
+      { type: 'replace', sectionId: sectionId('2. Requirements'), content: 'Requirements apply to web, mobile and kiosks.' },
+    ]);
+
+    expect(result.content).toBe(readFixture('patch-parent-body.expected.md'));
+    const children = result.sections.filter(s => s.parentId === sectionId('2. Requirements'));
+    expect(children.map(s => s.title)).toEqual(['2.1 Functional', 'Refunds']);
+    expect(children.find(s => s.title === 'Refunds')?.content).toBe('Refunds go back to the original card.');
+  });
+
+  it('inserts, moves and deletes sections, and the inverses undo it', () => {
+    const operations: PatchOperation[] = [
+      {
+        type: 'insert',
+        title: 'Security',
+        content: 'PCI DSS applies.',
+        parentId: sectionId('2. Requirements'),
+        afterSectionId: sectionId('2.1 Functional')
+      },
+      { type: 'move', sectionId: sectionId('3. Glossary'), parentId: null, afterSectionId: sectionId('1. Introduction') },
+      { type: 'delete', sectionId: sectionId('1.1 Scope') },
+    ];
+    const result = applyDocumentPatch(original, sections, operations);
+
+    expect(result.content).toBe(readFixture('patch-structure.expected.md'));
+    expect(result.sections.map(s => [s.path, s.title])).toEqual([
+      ['', 'Preamble'],
+      ['1', '1. Introduction'],
+      ['2', '3. Glossary'],
+      ['3', '2. Requirements'],
+      ['3.1', '2.1 Functional'],
+      ['3.2', 'Security'],
+      ['3.3', 'Refunds'],
+    ]);
+    expect(result.inverses).toHaveLength(operations.length);
+
+    // Undo the operations last to first, as reverting an AI edit does
+    let undone = result;
+    [...result.inverses].reverse().forEach(inverse => {
+      undone = applyDocumentPatch(undone.content, undone.sections, inverse);
+    });
+
+    expect(undone.content).toBe(original);
+    expect(undone.sections.map(s => s.id)).toEqual(sections.map(s => s.id));
+  });
+
+  it('recomputes line ranges after replacements change the line count', () => {
+    const result = applyDocumentPatch(original, sections, [
+      { type: 'replace', sectionId: sectionId('1.1 Scope'), content: 'In scope:\n\n- card payments\n- wallets\n- refunds' },
+      { type: 'replace', sectionId: sectionId('2.1 Functional'), content: '- Pay by card' },
+    ]);
+
+    expectRangesMatchContent(result);
+    const before = sections.find(s => s.title === 'Refunds')!;
+    const after = result.sections.find(s => s.title === 'Refunds')!;
+    // Four lines added to Scope, one removed from Functional
+    expect(after.startIndex).toBe(before.startIndex + 3);
+    expect(after.endIndex).toBe(before.endIndex + 3);
+  });
+
+  it('recomputes line ranges after structural changes', () => {
+    const result = applyDocumentPatch(original, sections, [
+      { type: 'move', sectionId: sectionId('Refunds'), parentId: sectionId('1. Introduction'), afterSectionId: null },
+      { type: 'rename', sectionId: sectionId('3. Glossary'), title: '3. Terms' },
+    ]);
+
+    expectRangesMatchContent(result);
+    expect(result.sections.find(s => s.title === 'Refunds')?.parentId).toBe(sectionId('1. Introduction'));
+  });
+
+  it('keeps replaced text out of the title of a following setext heading', () => {
+    const setext = readFixture('setext.md');
+    const setextSections = buildSectionTree(parseMarkdownSections(setext));
+    const checkout = setextSections.find(s => s.title === 'Checkout')!;
+
+    const result = applyDocumentPatch(setext, setextSections, [
+      { type: 'replace', sectionId: checkout.id, content: 'The checkout flow.' },
+    ]);
+
+    expect(result.content).toBe(readFixture('patch-setext.expected.md'));
+    expect(result.sections.map(s => [s.title, s.level])).toEqual([['Checkout', 1], ['Payments', 2]]);
+    expectRangesMatchContent(result);
+  });
+
+  it('rejects operations on sections that do not exist', () => {
+    expect(() => applyDocumentPatch(original, sections, [
+      { type: 'replace', sectionId: 'missing', content: 'Text' },
+    ])).toThrow(PatchError);
+  });
+});
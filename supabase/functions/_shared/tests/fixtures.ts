@@ -0,0 +1,7 @@
+import { readFileSync } from 'node:fs';
+
+// Markdown fixtures live next to the tests; expected outputs are stored as
+// `<name>.expected.md` so a failing test can be checked with a plain diff.
+export function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
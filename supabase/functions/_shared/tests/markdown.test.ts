@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { findUnclosedFence, parseMarkdown, parseMarkdownSections, PREAMBLE_LEVEL, PREAMBLE_TITLE } from '../markdown.ts';
+import { readFixture } from './fixtures.ts';
+
+const outline = (content: string) =>
+  parseMarkdownSections(content).map(({ title, level, startIndex, headingEndIndex, endIndex }) =>
+    ({ title, level, startIndex, headingEndIndex, endIndex }));
+
+describe('parseMarkdown', () => {
+  it('splits a BRD into sections with line ranges', () => {
+    expect(outline(readFixture('brd.md'))).toEqual([
+      { title: PREAMBLE_TITLE, level: PREAMBLE_LEVEL, startIndex: 4, headingEndIndex: 3, endIndex: 6 },
+      { title: '1. Introduction', level: 1, startIndex: 7, headingEndIndex: 7, endIndex: 10 },
+      { title: '1.1 Scope', level: 2, startIndex: 11, headingEndIndex: 11, endIndex: 14 },
+      { title: '2. Requirements', level: 1, startIndex: 15, headingEndIndex: 15, endIndex: 22 },
+      { title: '2.1 Functional', level: 2, startIndex: 23, headingEndIndex: 23, endIndex: 27 },
+      { title: 'Refunds', level: 2, startIndex: 28, headingEndIndex: 29, endIndex: 32 },
+      { title: '3. Glossary', level: 1, startIndex: 33, headingEndIndex: 33, endIndex: 36 },
+    ]);
+  });
+
+  it('reads front matter and keeps it out of the sections', () => {
+    const { frontMatter, sections } = parseMarkdown(readFixture('brd.md'));
+
+    expect(frontMatter).toEqual({ raw: 'title: Checkout BRD\nstatus: draft', startIndex: 0, endIndex: 3 });
+    expect(sections[0].content).toBe('Owner: Payments team.');
+  });
+
+  it('keeps headings inside code fences in the section body', () => {
+    const requirements = parseMarkdownSections(readFixture('brd.md')).find(s => s.title === '2. Requirements');
+
+    expect(requirements?.content).toBe(
+      'Requirements apply to web and mobile.\n\n```markdown\n# Not a heading\n```'
+    );
+  });
+
+  it('handles setext headings, fences and lines that only look like headings', () => {
+    expect(outline(readFixture('headings.md'))).toEqual([
+      { title: PREAMBLE_TITLE, level: 0, startIndex: 0, headingEndIndex: -1, endIndex: 2 },
+      { title: 'Overview', level: 1, startIndex: 3, headingEndIndex: 4, endIndex: 19 },
+      { title: 'Closing hashes', level: 2, startIndex: 20, headingEndIndex: 20, endIndex: 22 },
+      { title: 'Deep', level: 3, startIndex: 23, headingEndIndex: 23, endIndex: 24 },
+    ]);
+  });
+
+  it('treats an unterminated front matter delimiter as preamble content', () => {
+    const { frontMatter, sections } = parseMarkdown(readFixture('headings.md'));
+
+    expect(frontMatter).toBeNull();
+    expect(sections[0].content).toMatch(/^---\nText before the first heading/);
+  });
+
+  it('returns no preamble when the document starts with a heading', () => {
+    expect(outline('# Only\n\nBody')).toEqual([
+      { title: 'Only', level: 1, startIndex: 0, headingEndIndex: 0, endIndex: 2 },
+    ]);
+  });
+});
+
+describe('findUnclosedFence', () => {
+  it('finds the line of a fence that is never closed', () => {
+    expect(findUnclosedFence('Text\n\n```js\nconst a = 1;\n# still code')).toBe(2);
+  });
+
+  it('returns null when every fence is closed', () => {
+    expect(findUnclosedFence(readFixture('brd.md'))).toBeNull();
+    expect(findUnclosedFence('~~~~\n```\n~~~\n~~~~')).toBeNull();
+  });
+});
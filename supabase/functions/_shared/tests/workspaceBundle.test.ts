@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { remapWorkspaceBundle, validateWorkspaceBundle, WorkspaceBundle } from '../workspaceBundle.ts';
+
+const newId = () => crypto.randomUUID();
+const now = '2026-10-19T12:00:00.000Z';
+
+const documentId = newId();
+const introId = newId();
+const removedId = newId();
+const removedChildId = newId();
+const insertedId = newId();
+const appliedEditId = newId();
+const pendingEditId = newId();
+
+// A document whose applied edit deleted a section (its ids now only live in
+// the undo operation) and whose pending edit will insert one
+const bundle = {
+  format: 'brd-workspace',
+  version: 1,
+  exported_at: now,
+  brd_documents: [{
+    id: documentId,
+    filename: 'checkout.md',
+    original_content: '# Intro\n\n# Legacy\n\n## Notes\n',
+    current_content: '# Intro\n',
+    created_at: now,
+    updated_at: now,
+  }],
+  brd_sections: [{
+    id: introId,
+    document_id: documentId,
+    parent_id: null,
+    position: 0,
+    path: '1',
+    title: 'Intro',
+    level: 1,
+    content: '',
+    summary: null,
+    start_index: 0,
+    end_index: 0,
+    created_at: now,
+    updated_at: now,
+  }],
+  ai_edits: [
+    {
+      id: appliedEditId,
+      document_id: documentId,
+      prompt: 'Remove the legacy section',
+      status: 'applied',
+      proposed_changes: [],
+      section_changes: [{
+        change_id: newId(),
+        kind: 'delete',
+        section_id: removedId,
+        title: 'Legacy',
+        restored_summaries: { [removedId]: 'Old flow', [removedChildId]: null },
+        inverse: [{
+          type: 'restore',
+          markdown: '# Legacy\n\n## Notes',
+          sectionIds: [removedId, removedChildId],
+          parentId: null,
+          afterSectionId: introId,
+        }],
+      }],
+      sections_updated: [{ id: removedId, title: 'Legacy', kind: 'delete' }],
+      summary_of_changes: ['Removed Legacy'],
+      retrieval: null,
+      reverted_at: null,
+      created_at: now,
+    },
+    {
+      id: pendingEditId,
+      document_id: documentId,
+      prompt: 'Add a security section',
+      status: 'pending',
+      proposed_changes: [{
+        id: newId(),
+        kind: 'insert',
+        section_id: insertedId,
+        title: 'Security',
+        operation: {
+          type: 'insert',
+          sectionId: insertedId,
+          title: 'Security',
+          content: 'PCI DSS applies.',
+          parentId: null,
+          afterSectionId: introId,
+        },
+      }],
+      section_changes: [],
+      sections_updated: [],
+      summary_of_changes: ['Added Security'],
+      retrieval: null,
+      reverted_at: null,
+      created_at: now,
+    },
+  ],
+  brd_document_versions: [],
+  brd_chat_messages: [],
+};
+
+function parse(json: unknown): WorkspaceBundle {
+  const result = validateWorkspaceBundle(json);
+  if (result.success === false) throw new Error(result.errors.join('\n'));
+  return result.data;
+}
+
+describe('remapWorkspaceBundle', () => {
+  it('replaces every id, including ids that only appear in JSON columns', () => {
+    const remapped = remapWorkspaceBundle(parse(bundle), newId);
+    const json = JSON.stringify(remapped);
+
+    const original = JSON.stringify(bundle).match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g)!;
+    expect(original.length).toBeGreaterThan(10);
+    original.forEach(id => expect(json).not.toContain(id));
+  });
+
+  it('maps each original id to the same fresh id everywhere', () => {
+    const remapped = remapWorkspaceBundle(parse(bundle), newId);
+    const [applied, pending] = remapped.ai_edits;
+    const [change] = applied.section_changes as Array<{
+      section_id: string;
+      restored_summaries: Record<string, string | null>;
+      inverse: Array<{ sectionIds: string[]; afterSectionId: string }>;
+    }>;
+    const [proposal] = pending.proposed_changes as Array<{
+      section_id: string;
+      operation: { sectionId: string; afterSectionId: string };
+    }>;
+    const newIntroId = remapped.brd_sections[0].id;
+
+    expect(change.inverse[0].sectionIds[0]).toBe(change.section_id);
+    expect(Object.keys(change.restored_summaries)).toEqual(change.inverse[0].sectionIds);
+    expect(change.inverse[0].afterSectionId).toBe(newIntroId);
+    expect(proposal.operation.sectionId).toBe(proposal.section_id);
+    expect(proposal.operation.afterSectionId).toBe(newIntroId);
+    expect(remapped.brd_sections[0].document_id).toBe(remapped.brd_documents[0].id);
+  });
+
+  it('leaves free text untouched', () => {
+    const remapped = remapWorkspaceBundle(parse(bundle), newId);
+
+    expect(remapped.brd_documents[0].current_content).toBe('# Intro\n');
+    expect(remapped.ai_edits[1].prompt).toBe('Add a security section');
+  });
+});
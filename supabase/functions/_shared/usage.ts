@@ -0,0 +1,53 @@
+// Cost accounting for LLM calls. Prices are USD per million tokens; models
+// without a price (local and scripted ones) cost nothing.
+
+import type { EnvReader, LLMTask, TokenUsage } from './llm.ts';
+
+// What a recorded call was for: a completion task, or embedding sections and
+// queries for retrieval
+export type UsageTask = LLMTask | 'embedding';
+
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+};
+
+// LLM_PRICING (JSON, e.g. {"my-deployment": {"prompt": 0.15, "completion": 0.6}})
+// adds or overrides prices, which is how Azure deployments get priced.
+export function readModelPrices(env: EnvReader): Record<string, ModelPrice> {
+  const overrides = env('LLM_PRICING');
+  return overrides ? { ...DEFAULT_PRICES, ...JSON.parse(overrides) } : DEFAULT_PRICES;
+}
+
+export function calculateCost(usage: TokenUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+export interface BudgetLimits {
+  // Calendar-month spend caps in USD; null means unlimited
+  total: number | null;
+  perDocument: number | null;
+  perUser: number | null;
+}
+
+export function readBudgetLimits(env: EnvReader): BudgetLimits {
+  const read = (key: string) => {
+    const value = Number(env(key));
+    return env(key) && Number.isFinite(value) && value >= 0 ? value : null;
+  };
+  return {
+    total: read('LLM_BUDGET_MONTHLY_USD'),
+    perDocument: read('LLM_BUDGET_DOCUMENT_USD'),
+    perUser: read('LLM_BUDGET_USER_USD'),
+  };
+}
@@ -0,0 +1,206 @@
+// The JSON bundle a BRD workspace is exported to and imported from: the rows
+// of each table that belongs to a document, keyed by table name. Rows keep
+// their ids so the bundle is self-consistent; on import every id is replaced
+// with a fresh one, so a bundle can be restored next to the documents it was
+// exported from. Embeddings, processing jobs and the summary cache are
+// derived data and are not included.
+//
+// `version` is bumped whenever a field is added, removed or changes meaning;
+// bundles of any other version are rejected rather than guessed at.
+
+import { z } from 'zod';
+import { ValidationResult } from './schemas.ts';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'brd-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+const id = z.string().uuid();
+const timestamp = z.string().datetime({ offset: true });
+const jsonValue = z.union([z.record(z.unknown()), z.array(z.unknown())]);
+
+const documentRow = z.object({
+  id,
+  filename: z.string().min(1),
+  original_content: z.string(),
+  current_content: z.string(),
+  created_at: timestamp,
+  updated_at: timestamp,
+}).strict();
+
+const sectionRow = z.object({
+  id,
+  document_id: id,
+  parent_id: id.nullable(),
+  position: z.number().int().nonnegative(),
+  path: z.string(),
+  title: z.string(),
+  level: z.number().int().min(0).max(6),
+  content: z.string(),
+  summary: z.string().nullable(),
+  start_index: z.number().int().nullable(),
+  end_index: z.number().int().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+}).strict();
+
+const aiEditRow = z.object({
+  id,
+  document_id: id,
+  prompt: z.string(),
+  status: z.enum(['pending', 'applied', 'rejected', 'reverted']),
+  proposed_changes: jsonValue,
+  section_changes: jsonValue,
+  sections_updated: jsonValue,
+  summary_of_changes: z.array(z.string()).nullable(),
+  retrieval: jsonValue.nullable(),
+  reverted_at: timestamp.nullable(),
+  created_at: timestamp,
+}).strict();
+
+const versionRow = z.object({
+  id,
+  document_id: id,
+  version_number: z.number().int().positive(),
+  content: z.string(),
+  source: z.enum(['upload', 'manual', 'ai_edit', 'revert']),
+  author: z.string().nullable(),
+  message: z.string().nullable(),
+  ai_edit_id: id.nullable(),
+  created_at: timestamp,
+}).strict();
+
+const chatMessageRow = z.object({
+  id,
+  document_id: id,
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  ai_edit_id: id.nullable(),
+  retrieval: jsonValue.nullable(),
+  created_at: timestamp,
+}).strict();
+
+export const workspaceBundleSchema = z.object({
+  format: z.literal(WORKSPACE_BUNDLE_FORMAT),
+  version: z.literal(WORKSPACE_BUNDLE_VERSION),
+  exported_at: timestamp,
+  brd_documents: z.array(documentRow).min(1),
+  brd_sections: z.array(sectionRow),
+  ai_edits: z.array(aiEditRow),
+  brd_document_versions: z.array(versionRow),
+  brd_chat_messages: z.array(chatMessageRow).default([]),
+}).strict();
+
+export type WorkspaceBundle = z.infer<typeof workspaceBundleSchema>;
+
+// The tables a bundle holds rows for, in the order they are inserted
+export const WORKSPACE_TABLES = [
+  'brd_documents',
+  'brd_sections',
+  'ai_edits',
+  'brd_document_versions',
+  'brd_chat_messages',
+] as const;
+
+// Validates a parsed bundle file. Beyond the schema, every row must belong to
+// a document in the bundle, section parents must be sections of the same
+// document, and edit references must point at edits in the bundle.
+export function validateWorkspaceBundle(json: unknown): ValidationResult<WorkspaceBundle> {
+  const parsed = workspaceBundleSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'bundle'}: ${issue.message}`),
+    };
+  }
+
+  const errors = findInvalidReferences(parsed.data);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: parsed.data };
+}
+
+function findInvalidReferences(bundle: WorkspaceBundle): string[] {
+  const errors: string[] = [];
+
+  const seen = new Set<string>();
+  WORKSPACE_TABLES.forEach(table => {
+    bundle[table].forEach((row, i) => {
+      if (seen.has(row.id)) errors.push(`${table}.${i}.id: "${row.id}" appears more than once`);
+      seen.add(row.id);
+    });
+  });
+
+  const documents = new Set(bundle.brd_documents.map(document => document.id));
+  const sectionDocuments = new Map(bundle.brd_sections.map(section => [section.id, section.document_id]));
+  const edits = new Set(bundle.ai_edits.map(edit => edit.id));
+
+  (['brd_sections', 'ai_edits', 'brd_document_versions', 'brd_chat_messages'] as const).forEach(table => {
+    bundle[table].forEach((row, i) => {
+      if (!documents.has(row.document_id)) {
+        errors.push(`${table}.${i}.document_id: unknown document "${row.document_id}"`);
+      }
+    });
+  });
+
+  bundle.brd_sections.forEach((section, i) => {
+    if (section.parent_id && sectionDocuments.get(section.parent_id) !== section.document_id) {
+      errors.push(`brd_sections.${i}.parent_id: "${section.parent_id}" is not a section of the same document`);
+    }
+  });
+
+  (['brd_document_versions', 'brd_chat_messages'] as const).forEach(table => {
+    bundle[table].forEach((row, i) => {
+      if (row.ai_edit_id && !edits.has(row.ai_edit_id)) {
+        errors.push(`${table}.${i}.ai_edit_id: unknown AI edit "${row.ai_edit_id}"`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+// Gives every row a new id and rewrites the references to it, including
+// section and edit ids inside the JSON columns (proposed changes, undo
+// operations, retrieval details), so reverting an imported edit still works.
+// Ids are rewritten where they appear as object keys too, as in the
+// summaries a delete keeps for its revert (`restored_summaries`). Ids that
+// only appear in the JSON columns, such as the sections a delete removed or
+// the id a pending insert will create, get fresh ids as well: reverting or
+// applying the imported edit must never write a section id the source
+// document still uses.
+export function remapWorkspaceBundle(bundle: WorkspaceBundle, createId: () => string): WorkspaceBundle {
+  const ids = new Map<string, string>();
+  const freshId = (value: string): string => {
+    if (!ids.has(value)) ids.set(value, createId());
+    return ids.get(value)!;
+  };
+  const isId = (value: string) => id.safeParse(value).success;
+
+  const remap = <T>(value: T): T => {
+    if (typeof value === 'string') return (isId(value) ? freshId(value) : value) as T;
+    if (Array.isArray(value)) return value.map(remap) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [isId(key) ? freshId(key) : key, remap(item)])
+      ) as T;
+    }
+    return value;
+  };
+
+  // Only id-like fields and JSON columns are rewritten; free text such as
+  // content and prompts is copied as it is
+  const remapRow = <T extends Record<string, unknown>>(row: T, jsonColumns: string[] = []): T =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [
+      key,
+      key === 'id' || key.endsWith('_id') || jsonColumns.includes(key) ? remap(value) : value,
+    ])) as T;
+
+  return {
+    ...bundle,
+    brd_documents: bundle.brd_documents.map(row => remapRow(row)),
+    brd_sections: bundle.brd_sections.map(row => remapRow(row)),
+    ai_edits: bundle.ai_edits.map(row =>
+      remapRow(row, ['proposed_changes', 'section_changes', 'sections_updated', 'retrieval'])
+    ),
+    brd_document_versions: bundle.brd_document_versions.map(row => remapRow(row)),
+    brd_chat_messages: bundle.brd_chat_messages.map(row => remapRow(row, ['retrieval'])),
+  };
+}
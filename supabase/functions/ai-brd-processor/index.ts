@@ -1,19 +1,251 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { parseMarkdownSections, splitLines } from '../_shared/markdown.ts';
+import { buildSectionTree, createSectionId, TreeSection } from '../_shared/sectionTree.ts';
+import { applyDocumentPatch, PatchError, PatchOperation } from '../_shared/documentPatch.ts';
+import { ChatMessage, createProviderFromEnv, LLMProvider, LLMTask, TokenUsage } from '../_shared/llm.ts';
+import {
+  AIEditResponse,
+  ValidationResult,
+  validateAIEditResponse,
+  validateAskResponse,
+  validateChatTurnResponse
+} from '../_shared/schemas.ts';
+import { RankedSection, rankSectionsByEmbedding, rankSectionsByKeywords } from '../_shared/retrieval.ts';
+import { createEmbeddingProviderFromEnv, EmbeddingProvider } from '../_shared/embeddings.ts';
+import { ContextMode, estimateTokens, packSectionContext } from '../_shared/contextBudget.ts';
+import { calculateCost, readBudgetLimits, readModelPrices, UsageTask } from '../_shared/usage.ts';
+import { hashSectionContent } from '../_shared/contentHash.ts';
+import { mapWithConcurrency } from '../_shared/concurrency.ts';
+import { formatServerSentEvent } from '../_shared/sse.ts';
+import { extractEditDrafts } from '../_shared/editDrafts.ts';
+import {
+  remapWorkspaceBundle,
+  validateWorkspaceBundle,
+  WORKSPACE_BUNDLE_FORMAT,
+  WORKSPACE_BUNDLE_VERSION,
+  WORKSPACE_TABLES,
+  WorkspaceBundle
+} from '../_shared/workspaceBundle.ts';
+
+// Supabase's edge runtime keeps the worker alive for promises registered here
+// after the response has been sent.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL') ?? '',
-  Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-);
+// Every request talks to the database as its caller, so row-level security
+// applies to all reads and writes. The client lives in async-local storage
+// instead of being passed through every helper; work started with
+// EdgeRuntime.waitUntil inherits it.
+const requestClient = new AsyncLocalStorage<SupabaseClient>();
+
+function db(): SupabaseClient {
+  const client = requestClient.getStore();
+  if (!client) {
+    throw new Error('No database client for this request');
+  }
+  return client;
+}
+
+// Created lazily so a misconfigured provider surfaces as a request error
+let llmProvider: LLMProvider | null = null;
+let embeddingProvider: EmbeddingProvider | null = null;
+
+const AI_AUTHOR = 'AI assistant';
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Placeholder summaries; failures are never cached so they get retried
+const EMPTY_SUMMARY = 'Empty section';
+const FAILED_SUMMARY = 'Summary generation failed';
+
+const DEFAULT_SUMMARY_CONCURRENCY = 4;
+
+const DRAFT_EVENT_INTERVAL_MS = 150;
+
+// Earlier chat messages and applied edits sent along with each chat turn
+const CHAT_HISTORY_LIMIT = 20;
+const APPLIED_EDITS_IN_CONTEXT = 5;
+
+// Sections whose full content is sent to the model with a prompt or question,
+// budget permitting
+const DEFAULT_RETRIEVAL_LIMIT = 6;
+
+// Model context window and the part of it kept free for the response
+const DEFAULT_CONTEXT_TOKENS = 16000;
+const DEFAULT_MAX_OUTPUT_TOKENS = 3000;
+
+// Section texts per embeddings request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// A job that has not reported progress for this long has lost its worker
+const STALLED_JOB_MS = 2 * 60 * 1000;
+
+// Raised by save_brd_section_tree when the document moved on underneath us
+const SERIALIZATION_FAILURE = '40001';
+
+// Shared by the one-shot edit prompt and the chat prompt
+const EDIT_RESPONSE_FIELDS = `  "sectionsToUpdate": [{"id": "section id", "title": "exact section title", "reasoning": "brief explanation"}],
+  "updatedSections": [{"id": "section id", "title": "exact section title", "content": "complete new content for this section"}],
+  "operations": [
+    {"type": "insert", "title": "new section title", "content": "content of the new section", "afterSectionId": "section id or null", "parentId": "section id or null", "reasoning": "brief explanation"},
+    {"type": "delete", "sectionId": "section id", "reasoning": "brief explanation"},
+    {"type": "rename", "sectionId": "section id", "newTitle": "new title", "reasoning": "brief explanation"},
+    {"type": "move", "sectionId": "section id", "afterSectionId": "section id or null", "parentId": "section id or null", "reasoning": "brief explanation"}
+  ],
+  "summaryOfChanges": ["specific change 1", "specific change 2"]`;
+
+const EDIT_RESPONSE_RULES = `1. Only include sections that actually need changes
+2. Use the exact section ids and titles from the document
+3. Provide complete content for updated and inserted sections, without the heading line; content must not contain headings of its own and must close every code fence
+4. Only sections listed with their full content can be updated; the others are listed with a summary or title only so you can place, move, rename or delete sections around them
+5. Use "operations" only to add, delete, rename or move sections; leave it empty otherwise
+6. For insert and move, "afterSectionId" is the sibling to place the section after (null for first); omit "parentId" to keep the sibling's parent, or set it (null for top level)
+7. Be specific and concise in change summaries
+8. Respond with ONLY the JSON object, no other text`;
+
+// The request collides with changes made since it was prepared.
+class ConflictError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+class UnauthorizedError extends Error {
+  status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The model kept producing output that does not match the edit contract.
+class AIResponseValidationError extends Error {
+  status = 422;
+
+  constructor(public details: string[]) {
+    super(`The AI response could not be understood: ${details.slice(0, 3).join('; ')}`);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+// An imported workspace bundle does not match the bundle format.
+class InvalidBundleError extends Error {
+  status = 422;
+
+  constructor(public details: string[]) {
+    super(`The workspace file is not a valid BRD bundle: ${details.slice(0, 3).join('; ')}`);
+    this.name = 'InvalidBundleError';
+  }
+}
+
+// A monthly LLM budget is used up; calls stay blocked until next month or
+// until the limit is raised.
+class BudgetExceededError extends Error {
+  status = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+type ChangeKind = 'update' | 'insert' | 'delete' | 'rename' | 'move';
+
+// Structural changes go last so content updates still find their sections
+const APPLY_ORDER: ChangeKind[] = ['update', 'rename', 'move', 'insert', 'delete'];
+
+type EmitEvent = (event: string, data: unknown) => void;
+
+// Who an LLM call is made for; recorded with its usage and checked against
+// the budget limits
+interface UsageContext {
+  action: string;
+  documentId: string | null;
+  userId: string | null;
+}
+
+// Used when the client did not ask for a stream
+const silent: EmitEvent = () => {};
+
+interface JobRow {
+  id: string;
+  document_id: string;
+  status: string;
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  cache_hits: number;
+  updated_at: string;
+}
+
+interface SummaryCacheStats {
+  hits: number;
+  misses: number;
+}
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+interface SectionRow {
+  id: string;
+  parent_id: string | null;
+  path: string;
+  title: string;
+  level: number;
+  content: string;
+  summary: string | null;
+}
+
+interface SectionRanking {
+  method: 'embedding' | 'keyword';
+  ranked: RankedSection<SectionRow>[];
+}
+
+// Every section of the document ranked against a prompt, most relevant
+// first, with how much of it fitted into the prompt
+interface SectionRetrieval {
+  method: SectionRanking['method'];
+  budget: { limit: number; output: number; used: number };
+  sections: { id: string; title: string; path: string; score: number; context: ContextMode; tokens: number }[];
+}
+
+interface ProposedChange {
+  id: string;
+  kind: ChangeKind;
+  section_id: string;
+  title: string;
+  path: string;
+  reasoning: string;
+  description: string;
+  original_content: string;
+  proposed_content: string;
+  operation: PatchOperation;
+}
+
+interface SectionChange {
+  change_id: string;
+  kind: ChangeKind;
+  section_id: string;
+  title: string;
+  before_title: string | null;
+  after_title: string | null;
+  before_content: string;
+  after_content: string;
+  before_summary: string | null;
+  after_summary: string | null;
+  // Summaries of the sections a delete removed, restored on revert
+  restored_summaries: Record<string, string | null>;
+  inverse: PatchOperation[];
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -21,37 +253,83 @@ serve(async (req) => {
   }
 
   try {
-    const { action, ...data } = await req.json();
+    const { action, stream, ...data } = await req.json();
     console.log('AI BRD Processor called with action:', action);
+    const { client, userId, author } = await authenticate(req);
+    const usage: UsageContext = { action, documentId: data.document_id ?? null, userId };
 
-    switch (action) {
-      case 'process_document':
-        return await processDocument(data);
-      case 'ai_edit':
-        return await processAIEdit(data);
-      case 'generate_summary':
-        return await generateSummary(data);
-      default:
-        throw new Error(`Unknown action: ${action}`);
-    }
+    return await requestClient.run(client, async () => {
+      switch (action) {
+        case 'process_document':
+          return await processDocument(data, usage, author);
+        case 'ai_edit':
+          return await respond(req, stream, (emit, signal) => processAIEdit(data, usage, emit, signal));
+        case 'apply_edit':
+          return await respond(req, stream, (emit, signal) => applyAIEdit(data, usage, emit, signal));
+        case 'chat':
+          return await respond(req, stream, (emit, signal) => processChatTurn(data, usage, emit, signal));
+        case 'ask':
+          return await respond(req, stream, () => answerQuestion(data, usage));
+        case 'revert_edit':
+          return await revertAIEdit(data, usage);
+        case 'save_document':
+          return await saveDocument(data, usage, author);
+        case 'generate_summary':
+          return await generateSummary(data, usage);
+        case 'duplicate_document':
+          return await duplicateDocument(data, author);
+        case 'export_workspace':
+          return await exportWorkspace(data);
+        case 'import_workspace':
+          return await importWorkspace(data);
+        case 'job_status':
+          return await getJobStatus(data);
+        case 'resume_job':
+          return await resumeJob(data, usage);
+        case 'usage_limits':
+          return await getUsageLimits(usage);
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+    });
   } catch (error) {
     console.error('Error in ai-brd-processor:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: error.message, details: error.details }),
       { 
-        status: 500, 
+        status: error.status ?? (error instanceof PatchError ? 409 : 500), 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
   }
 });
 
-async function processDocument(data: { content: string; filename: string }) {
+// A client that carries the caller's JWT, the user it belongs to, and how
+// that user is named as the author of the versions they save
+async function authenticate(req: Request): Promise<{ client: SupabaseClient; userId: string; author: string }> {
+  const authorization = req.headers.get('Authorization') ?? '';
+  const client = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: { headers: { Authorization: authorization } },
+      auth: { persistSession: false }
+    }
+  );
+
+  const { data: { user }, error } = await client.auth.getUser(authorization.replace(/^Bearer\s+/i, ''));
+  if (error || !user) {
+    throw new UnauthorizedError('Sign in to use the BRD assistant');
+  }
+  return { client, userId: user.id, author: user.email ?? user.id };
+}
+
+async function processDocument(data: { content: string; filename: string }, usage: UsageContext, author: string) {
   console.log('Processing document:', data.filename);
 
   try {
     // Save document to database
-    const { data: document, error: docError } = await supabase
+    const { data: document, error: docError } = await db()
       .from('brd_documents')
       .insert({
         filename: data.filename,
@@ -65,32 +343,37 @@ async function processDocument(data: { content: string; filename: string }) {
       throw new Error(`Failed to save document: ${docError.message}`);
     }
 
+    await recordVersion({
+      document_id: document.id,
+      content: data.content,
+      source: 'upload',
+      author,
+      message: `Uploaded ${data.filename}`
+    });
+
     // Parse sections
-    const sections = parseMarkdownSections(data.content);
+    const sections = toSectionRows(data.content);
     console.log('Parsed sections:', sections.length);
 
-    // Generate summaries for each section using AI
-    const sectionsWithSummaries = await Promise.all(
-      sections.map(async (section) => {
-        const summary = await generateAISummary(section.content);
-        return { ...section, summary, document_id: document.id };
-      })
-    );
-
-    // Save sections to database
-    const { error: sectionsError } = await supabase
+    // Save sections to database; summaries are filled in by the job below
+    const sectionRows = sections.map(section => ({ ...section, summary: null, document_id: document.id }));
+    const { error: sectionsError } = await db()
       .from('brd_sections')
-      .insert(sectionsWithSummaries);
+      .insert(sectionRows);
 
     if (sectionsError) {
       throw new Error(`Failed to save sections: ${sectionsError.message}`);
     }
 
+    const job = await createSummaryJob(document.id, sectionRows.map(section => section.id));
+    EdgeRuntime.waitUntil(runSummaryJob(job.id, { ...usage, documentId: document.id }));
+
     return new Response(
       JSON.stringify({ 
         document_id: document.id,
-        sections: sectionsWithSummaries,
-        message: 'Document processed successfully'
+        sections: sectionRows,
+        job: toJobProgress(job),
+        message: 'Document saved; summaries are being generated'
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -100,12 +383,175 @@ async function processDocument(data: { content: string; filename: string }) {
   }
 }
 
-async function processAIEdit(data: { prompt: string; document_id: string }) {
+async function createSummaryJob(documentId: string, sectionIds: string[]) {
+  const { data: job, error: jobError } = await db()
+    .from('brd_processing_jobs')
+    .insert({
+      document_id: documentId,
+      total_items: sectionIds.length,
+      status: sectionIds.length > 0 ? 'queued' : 'completed'
+    })
+    .select()
+    .single();
+
+  if (jobError) {
+    throw new Error(`Failed to create processing job: ${jobError.message}`);
+  }
+
+  if (sectionIds.length > 0) {
+    const { error: itemsError } = await db()
+      .from('brd_processing_job_items')
+      .insert(sectionIds.map(sectionId => ({ job_id: job.id, section_id: sectionId })));
+
+    if (itemsError) {
+      throw new Error(`Failed to queue sections: ${itemsError.message}`);
+    }
+  }
+
+  return job;
+}
+
+// Drains a job in batches of SUMMARY_CONCURRENCY sections. Runs after the
+// response has been sent; progress lives in the job tables, so a worker that
+// dies mid-way only leaves items for `resume_job` to pick up.
+async function runSummaryJob(jobId: string, usage: UsageContext) {
+  const batchSize = getSummaryConcurrency();
+  console.log(`Running summary job ${jobId} with concurrency ${batchSize}`);
+
+  try {
+    while (true) {
+      const { data: items, error: claimError } = await db()
+        .rpc('claim_brd_job_items', { p_job_id: jobId, p_limit: batchSize });
+
+      if (claimError) {
+        throw new Error(`Failed to claim job items: ${claimError.message}`);
+      }
+      if (!items || items.length === 0) break;
+
+      const { data: sections, error: sectionsError } = await db()
+        .from('brd_sections')
+        .select('id, content')
+        .in('id', items.map(item => item.section_id));
+
+      if (sectionsError) {
+        throw new Error(`Failed to load sections: ${sectionsError.message}`);
+      }
+
+      const contents = items.map(item => sections.find(s => s.id === item.section_id)?.content ?? '');
+      const { summaries, fromCache } = await summarizeWithCache(contents, usage);
+
+      await Promise.all(items.map(async (item, i) => {
+        const failed = summaries[i] === FAILED_SUMMARY;
+        if (!failed) {
+          await db()
+            .from('brd_sections')
+            .update({ summary: summaries[i] })
+            .eq('id', item.section_id);
+        }
+        await db().rpc('finish_brd_job_item', {
+          p_item_id: item.id,
+          p_status: failed ? 'failed' : 'done',
+          p_error: failed ? 'The LLM did not return a summary' : null,
+          p_cache_hit: fromCache[i]
+        });
+      }));
+    }
+  } catch (error) {
+    // Claimed items stay "running" and are re-queued by resume_job
+    console.error(`Summary job ${jobId} stopped:`, error);
+  }
+}
+
+async function getJobStatus(data: { job_id: string }) {
+  const { data: job, error } = await db()
+    .from('brd_processing_jobs')
+    .select('*')
+    .eq('id', data.job_id)
+    .single();
+
+  if (error || !job) {
+    throw new Error('Job not found');
+  }
+
+  return new Response(
+    JSON.stringify(toJobProgress(job)),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function resumeJob(data: { job_id: string }, usage: UsageContext) {
+  console.log('Resuming job:', data.job_id);
+
+  try {
+    const { data: job, error } = await db()
+      .from('brd_processing_jobs')
+      .select('*')
+      .eq('id', data.job_id)
+      .single();
+
+    if (error || !job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status === 'completed') {
+      throw new ConflictError('This job has already completed');
+    }
+
+    // A job still reporting progress has a live worker; requeueing its
+    // running items would summarize them twice.
+    const idleFor = Date.now() - new Date(job.updated_at).getTime();
+    if (job.status !== 'failed' && idleFor < STALLED_JOB_MS) {
+      throw new ConflictError('This job is still running');
+    }
+
+    const { error: requeueError } = await db().rpc('requeue_brd_job', { p_job_id: job.id });
+    if (requeueError) {
+      throw new Error(`Failed to resume job: ${requeueError.message}`);
+    }
+
+    EdgeRuntime.waitUntil(runSummaryJob(job.id, { ...usage, documentId: job.document_id }));
+
+    return new Response(
+      JSON.stringify(toJobProgress({ ...job, status: 'queued' })),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in resumeJob:', error);
+    throw error;
+  }
+}
+
+function toJobProgress(job: JobRow) {
+  return {
+    id: job.id,
+    document_id: job.document_id,
+    status: job.status,
+    total: job.total_items,
+    completed: job.completed_items,
+    failed: job.failed_items,
+    summary_cache: {
+      hits: job.cache_hits,
+      misses: job.completed_items - job.cache_hits
+    }
+  };
+}
+
+function getSummaryConcurrency(): number {
+  const limit = Number(Deno.env.get('SUMMARY_CONCURRENCY'));
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_SUMMARY_CONCURRENCY;
+}
+
+async function processAIEdit(
+  data: { prompt: string; document_id: string },
+  usage: UsageContext,
+  emit: EmitEvent = silent,
+  signal?: AbortSignal
+) {
   console.log('Processing AI edit for document:', data.document_id);
 
   try {
     // Get document and sections
-    const { data: document, error: docError } = await supabase
+    const { data: document, error: docError } = await db()
       .from('brd_documents')
       .select('*')
       .eq('id', data.document_id)
@@ -115,7 +561,7 @@ async function processAIEdit(data: { prompt: string; document_id: string }) {
       throw new Error('Document not found');
     }
 
-    const { data: sections, error: sectionsError } = await supabase
+    const { data: sections, error: sectionsError } = await db()
       .from('brd_sections')
       .select('*')
       .eq('document_id', data.document_id)
@@ -125,272 +571,1587 @@ async function processAIEdit(data: { prompt: string; document_id: string }) {
       throw new Error('Failed to load sections');
     }
 
+    emit('stage', { stage: 'context', message: `Reading ${sections.length} sections` });
+
+    emit('stage', { stage: 'retrieving', message: 'Finding the relevant sections' });
+    const ranking = await retrieveSections(data.prompt, sections, usage, signal);
+
     // Use AI to determine what changes to make with improved prompts
-    const aiResponse = await callOpenAIWithRetry([
+    const buildMessages = (sectionContext: string): ChatMessage[] => [
       {
         role: 'system',
         content: `You are an expert business analyst. You will analyze a Business Requirements Document (BRD) and user requests to make precise edits.
 
 CRITICAL: You must respond with ONLY valid JSON in exactly this format:
 {
-  "sectionsToUpdate": [{"title": "exact section title", "reasoning": "brief explanation"}],
-  "updatedSections": [{"title": "exact section title", "content": "complete new content for this section"}],
-  "summaryOfChanges": ["specific change 1", "specific change 2"]
+${EDIT_RESPONSE_FIELDS}
 }
 
 Rules:
-1. Only include sections that actually need changes
-2. Use exact section titles from the document
-3. Provide complete content for updated sections
-4. Be specific and concise in change summaries
-5. Respond with ONLY the JSON object, no other text`
+${EDIT_RESPONSE_RULES}`
       },
       {
         role: 'user',
         content: `Current BRD sections:
-${sections.map(s => `Title: "${s.title}"\nContent: ${s.content.slice(0, 500)}...\n`).join('\n')}
+${sectionContext}
 
 User request: "${data.prompt}"
 
 Analyze which sections need updates and provide the complete updated content in the required JSON format.`
       }
-    ]);
-
-    const parsedResponse = parseAIResponse(aiResponse);
-
-    // Update sections in database
-    for (const updatedSection of parsedResponse.updatedSections) {
-      const sectionToUpdate = sections.find(s => s.title === updatedSection.title);
-      if (sectionToUpdate) {
-        const newSummary = await generateAISummary(updatedSection.content);
-        await supabase
-          .from('brd_sections')
-          .update({ 
-            content: updatedSection.content,
-            summary: newSummary
-          })
-          .eq('id', sectionToUpdate.id);
-      }
-    }
-
-    // Rebuild document content
-    let newContent = document.current_content;
-    for (const updatedSection of parsedResponse.updatedSections) {
-      const section = sections.find(s => s.title === updatedSection.title);
-      if (section && section.start_index !== null && section.end_index !== null) {
-        const lines = newContent.split('\n');
-        const before = lines.slice(0, section.start_index);
-        const after = lines.slice(section.end_index + 1);
-        const newSectionContent = `${'#'.repeat(section.level)} ${updatedSection.title}\n${updatedSection.content}`;
-        newContent = [...before, newSectionContent, ...after].join('\n');
-      }
-    }
+    ];
+    const { text: sectionContext, retrieval } = packContext(sections, ranking, buildMessages(''));
+    emit('retrieval', retrieval);
+    const messages = buildMessages(sectionContext);
 
-    // Update document in database
-    await supabase
-      .from('brd_documents')
-      .update({ current_content: newContent })
-      .eq('id', data.document_id);
+    const sectionIds = sections.map(s => s.id);
+    const parsedResponse = await requestValidatedResponse(
+      messages,
+      raw => validateAIEditResponse(raw, sectionIds, fullSectionIds(retrieval)),
+      usage,
+      emit,
+      signal
+    );
 
-    // Save edit history
-    await supabase
-      .from('ai_edits')
-      .insert({
-        document_id: data.document_id,
-        prompt: data.prompt,
-        sections_updated: parsedResponse.sectionsToUpdate,
-        summary_of_changes: parsedResponse.summaryOfChanges
-      });
+    // A cancelled request must not leave a pending proposal behind
+    signal?.throwIfAborted();
+    emit('stage', { stage: 'saving', message: 'Saving the proposal' });
 
-    return new Response(
-      JSON.stringify({
-        updated_content: newContent,
-        sections_updated: parsedResponse.sectionsToUpdate,
-        summary_of_changes: parsedResponse.summaryOfChanges
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return await saveEditProposal(data.document_id, data.prompt, parsedResponse, sections, retrieval);
   } catch (error) {
     console.error('Error in processAIEdit:', error);
     throw error;
   }
 }
 
-async function generateSummary(data: { content: string }) {
+async function processChatTurn(
+  data: { document_id: string; message: string },
+  usage: UsageContext,
+  emit: EmitEvent = silent,
+  signal?: AbortSignal
+) {
+  console.log('Processing chat turn for document:', data.document_id);
+  const receivedAt = new Date().toISOString();
+
   try {
-    const summary = await generateAISummary(data.content);
-    return new Response(
-      JSON.stringify({ summary }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    if (!data.message?.trim()) {
+      throw new Error('Message is empty');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', data.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    const { data: history, error: historyError } = await db()
+      .from('brd_chat_messages')
+      .select('role, content, ai_edits(status, summary_of_changes)')
+      .eq('document_id', data.document_id)
+      .order('created_at', { ascending: false })
+      .limit(CHAT_HISTORY_LIMIT);
+
+    if (historyError) {
+      throw new Error(`Failed to load chat history: ${historyError.message}`);
+    }
+
+    const { data: appliedEdits } = await db()
+      .from('ai_edits')
+      .select('prompt, summary_of_changes')
+      .eq('document_id', data.document_id)
+      .eq('status', 'applied')
+      .order('created_at', { ascending: false })
+      .limit(APPLIED_EDITS_IN_CONTEXT);
+
+    emit('stage', { stage: 'context', message: `Reading ${sections.length} sections and ${history.length} earlier messages` });
+
+    emit('stage', { stage: 'retrieving', message: 'Finding the relevant sections' });
+    const ranking = await retrieveSections(data.message.trim(), sections, usage, signal);
+
+    const buildMessages = (sectionContext: string): ChatMessage[] => [
+      {
+        role: 'system',
+        content: `You are an expert business analyst discussing a Business Requirements Document (BRD) with its author. Each user message is either a question about the document or a request to change it. Earlier turns are part of the conversation, so resolve references like "that section" or "make it shorter" against them.
+
+For a question, respond with ONLY this JSON:
+{"type": "answer", "answer": "your answer in Markdown"}
+
+For a change request, respond with ONLY this JSON:
+{
+  "type": "edit",
+  "reply": "one or two sentences telling the user what you propose",
+${EDIT_RESPONSE_FIELDS}
+}
+
+Rules for change requests:
+${EDIT_RESPONSE_RULES}
+
+Current BRD sections:
+${sectionContext}
+${(appliedEdits ?? []).length > 0 ? `
+Edits already applied to the document (newest first):
+${appliedEdits!.map(e => `- "${e.prompt}": ${(e.summary_of_changes ?? []).join('; ')}`).join('\n')}
+` : ''}`
+      },
+      ...[...history].reverse().map(turn => ({
+        role: turn.role as ChatMessage['role'],
+        content: describeChatTurn(turn)
+      })),
+      { role: 'user', content: data.message.trim() }
+    ];
+    const { text: sectionContext, retrieval } = packContext(sections, ranking, buildMessages(''));
+    emit('retrieval', retrieval);
+    const messages = buildMessages(sectionContext);
+
+    const sectionIds = sections.map(s => s.id);
+    const response = await requestValidatedResponse(
+      messages,
+      raw => validateChatTurnResponse(raw, sectionIds, fullSectionIds(retrieval)),
+      usage,
+      emit,
+      signal
     );
+
+    signal?.throwIfAborted();
+    emit('stage', { stage: 'saving', message: 'Saving the conversation' });
+
+    const edit = response.type === 'edit'
+      ? await saveEditProposal(data.document_id, data.message.trim(), response, sections, retrieval)
+      : null;
+
+    const { data: saved, error: saveError } = await db()
+      .from('brd_chat_messages')
+      .insert([
+        { document_id: data.document_id, role: 'user', content: data.message.trim(), created_at: receivedAt },
+        {
+          document_id: data.document_id,
+          role: 'assistant',
+          created_at: new Date().toISOString(),
+          content: response.type === 'edit' ? response.reply : response.answer,
+          ai_edit_id: edit?.edit_id ?? null,
+          retrieval
+        }
+      ])
+      .select();
+
+    if (saveError) {
+      throw new Error(`Failed to save chat messages: ${saveError.message}`);
+    }
+
+    return {
+      messages: saved,
+      edit,
+      retrieval
+    };
   } catch (error) {
-    console.error('Error generating summary:', error);
+    console.error('Error in processChatTurn:', error);
     throw error;
   }
 }
 
-async function generateAISummary(content: string): Promise<string> {
-  if (!content.trim()) return 'Empty section';
-  
+// Earlier assistant turns that proposed an edit carry the edit's outcome, so
+// the model knows whether its suggestion was applied.
+function describeChatTurn(turn: {
+  role: string;
+  content: string;
+  ai_edits: { status: string; summary_of_changes: string[] | null } | null;
+}): string {
+  if (!turn.ai_edits) return turn.content;
+  const changes = (turn.ai_edits.summary_of_changes ?? []).join('; ');
+  return `${turn.content}\n\n[Proposed edit, now ${turn.ai_edits.status}${changes ? `: ${changes}` : ''}]`;
+}
+
+// Read-only: answers from the sections that best match the question and
+// cites them with verbatim quotes the editor can highlight.
+async function answerQuestion(data: { document_id: string; question: string }, usage: UsageContext) {
+  console.log('Answering question for document:', data.document_id);
+
   try {
-    const response = await callOpenAIWithRetry([
+    if (!data.question?.trim()) {
+      throw new Error('Question is empty');
+    }
+
+    const { data: document, error: docError } = await db()
+      .from('brd_documents')
+      .select('current_content')
+      .eq('id', data.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error('Document not found');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', data.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    const ranking = await retrieveSections(data.question, sections, usage);
+
+    const buildMessages = (sectionContext: string): ChatMessage[] => [
       {
         role: 'system',
-        content: 'You are a business analyst. Create a concise 1-2 sentence summary of the following BRD section content. Focus on the key requirements and objectives.'
+        content: `You are an expert business analyst answering questions about a Business Requirements Document (BRD). Answer only from the sections provided. If they do not contain the answer, say so.
+
+CRITICAL: You must respond with ONLY valid JSON in exactly this format:
+{
+  "answer": "your answer in Markdown",
+  "citations": [{"sectionId": "section id", "quote": "short passage copied exactly from that section"}]
+}
+
+Rules:
+1. Cite every section the answer relies on
+2. Quotes must be copied character for character from the section content, at most two sentences
+3. Use an empty citations list only when the sections do not answer the question
+4. Only quote sections listed with their content; summaries cannot be quoted`
       },
       {
         role: 'user',
-        content: content.slice(0, 1000) // Limit content length
+        content: `BRD sections:
+${sectionContext}
+Question: "${data.question.trim()}"`
       }
-    ]);
+    ];
+    const { text: sectionContext, retrieval } = packContext(sections, ranking, buildMessages(''));
+    const messages = buildMessages(sectionContext);
+    const consulted = retrieval.sections
+      .filter(entry => entry.context === 'full' || entry.context === 'truncated')
+      .map(entry => ({ section: sections.find(s => s.id === entry.id)!, score: entry.score }));
 
-    return response.slice(0, 200); // Limit summary length
+    const response = await requestValidatedResponse(
+      messages,
+      raw => validateAskResponse(raw, consulted.map(c => c.section)),
+      usage,
+      silent,
+      undefined,
+      'answer'
+    );
+
+    return {
+      answer: response.answer,
+      citations: response.citations.map(citation => {
+        const section = sections.find(s => s.id === citation.sectionId)!;
+        return {
+          section_id: section.id,
+          title: section.title,
+          path: section.path,
+          quote: citation.quote,
+          ...locateQuote(document.current_content, section, citation.quote)
+        };
+      }),
+      retrieval
+    };
   } catch (error) {
-    console.error('Error generating AI summary:', error);
-    return 'Summary generation failed';
+    console.error('Error in answerQuestion:', error);
+    throw error;
   }
 }
 
-async function callOpenAIWithRetry(messages: any[], maxRetries: number = 3): Promise<string> {
-  if (!openAIApiKey) {
-    throw new Error('OpenAI API key not configured');
+// Character range of a quote in the document, searched within its section's
+// lines so a phrase repeated elsewhere is not matched.
+function locateQuote(
+  content: string,
+  section: { start_index: number; end_index: number },
+  quote: string
+): { start: number | null; end: number | null } {
+  const lines = splitLines(content);
+  const offset = lines.slice(0, section.start_index).reduce((sum, line) => sum + line.length + 1, 0);
+  const index = lines.slice(section.start_index, section.end_index + 1).join('\n').indexOf(quote);
+  return index === -1
+    ? { start: null, end: null }
+    : { start: offset + index, end: offset + index + quote.length };
+}
+
+// Stores a validated edit as a pending changeset; nothing is written to the
+// document until the user accepts changes through `apply_edit`.
+async function saveEditProposal(
+  documentId: string,
+  prompt: string,
+  response: AIEditResponse,
+  sections: SectionRow[],
+  retrieval: SectionRetrieval
+) {
+  const changes = buildProposedChanges(response, sections);
+
+  const { data: edit, error: editError } = await db()
+    .from('ai_edits')
+    .insert({
+      document_id: documentId,
+      prompt,
+      status: changes.length > 0 ? 'pending' : 'rejected',
+      proposed_changes: changes,
+      sections_updated: [],
+      summary_of_changes: response.summaryOfChanges,
+      retrieval
+    })
+    .select()
+    .single();
+
+  if (editError) {
+    throw new Error(`Failed to save edit proposal: ${editError.message}`);
   }
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`OpenAI API call attempt ${attempt}/${maxRetries}`);
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages,
-          temperature: 0.3,
-          max_tokens: 3000,
-        }),
-      });
+  return {
+    edit_id: edit.id,
+    status: edit.status,
+    changes,
+    summary_of_changes: response.summaryOfChanges,
+    retrieval
+  };
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
-      }
+// Fits the sections into what is left of the context window once the rest
+// of the prompt and the response are accounted for. `messages` is the prompt
+// built without section context.
+function packContext(
+  sections: SectionRow[],
+  ranking: SectionRanking,
+  messages: ChatMessage[]
+): { text: string; retrieval: SectionRetrieval } {
+  const { contextTokens, outputTokens } = getTokenBudget();
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const packed = packSectionContext(
+    sections,
+    ranking.ranked.map(r => r.section.id),
+    getRetrievalLimit(),
+    contextTokens - outputTokens - promptTokens
+  );
+  const modes = new Map(packed.sections.map(entry => [entry.id, entry]));
 
-      const data = await response.json();
-      
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error('Invalid response structure from OpenAI');
-      }
+  const reduced = packed.sections.filter(entry => entry.mode === 'truncated' || entry.mode === 'omitted');
+  if (reduced.length > 0) {
+    console.log(`Context budget: ${reduced.length} sections truncated or omitted (${packed.used}/${packed.limit} tokens)`);
+  }
 
-      return data.choices[0].message.content.trim();
-    } catch (error) {
-      console.error(`OpenAI API attempt ${attempt} failed:`, error);
-      
-      if (attempt === maxRetries) {
-        throw new Error(`OpenAI API failed after ${maxRetries} attempts: ${error.message}`);
-      }
-      
-      // Wait before retry (exponential backoff)
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+  return {
+    text: packed.text,
+    retrieval: {
+      method: ranking.method,
+      budget: { limit: contextTokens, output: outputTokens, used: promptTokens + packed.used },
+      sections: ranking.ranked.map(({ section, score }) => ({
+        id: section.id,
+        title: section.title,
+        path: section.path,
+        score: Math.round(score * 1000) / 1000,
+        context: modes.get(section.id)!.mode,
+        tokens: modes.get(section.id)!.tokens
+      }))
     }
-  }
+  };
+}
 
-  throw new Error('Unexpected error in OpenAI retry logic');
+// Only sections the model saw in full may be rewritten
+function fullSectionIds(retrieval: SectionRetrieval): string[] {
+  return retrieval.sections.filter(entry => entry.context === 'full').map(entry => entry.id);
 }
 
-function parseAIResponse(responseText: string): any {
+// Ranks every section against the query by embedding similarity, falling
+// back to keyword ranking when no embedding provider is reachable. Sections
+// the ranking did not score keep their document order at the end, so a query
+// with nothing in common with the document still reads it from the top.
+async function retrieveSections(
+  query: string,
+  sections: SectionRow[],
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<SectionRanking> {
+  let method: SectionRanking['method'] = 'embedding';
+  let ranked: RankedSection<SectionRow>[];
+
   try {
-    // Clean up the response text
-    let cleanedResponse = responseText.trim();
-    
-    // Remove markdown code blocks if present
-    if (cleanedResponse.startsWith('```json')) {
-      cleanedResponse = cleanedResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedResponse.startsWith('```')) {
-      cleanedResponse = cleanedResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-    
-    // Try to find JSON in the response
-    const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleanedResponse = jsonMatch[0];
-    }
-    
-    console.log('Attempting to parse AI response:', cleanedResponse.slice(0, 200) + '...');
-    
-    const parsed = JSON.parse(cleanedResponse);
-    
-    // Validate required fields
-    if (!parsed.sectionsToUpdate || !Array.isArray(parsed.sectionsToUpdate)) {
-      throw new Error('Missing or invalid sectionsToUpdate array');
-    }
-    if (!parsed.updatedSections || !Array.isArray(parsed.updatedSections)) {
-      throw new Error('Missing or invalid updatedSections array');
-    }
-    if (!parsed.summaryOfChanges || !Array.isArray(parsed.summaryOfChanges)) {
-      throw new Error('Missing or invalid summaryOfChanges array');
-    }
-    
-    // Ensure each section has required fields
-    for (const section of parsed.updatedSections) {
-      if (!section.title || !section.content) {
-        throw new Error('Updated section missing title or content');
-      }
-    }
-    
-    return parsed;
+    const embeddings = await loadSectionEmbeddings(sections, usage, signal);
+    const [queryEmbedding] = await embedTexts([query], usage, signal);
+    ranked = rankSectionsByEmbedding(queryEmbedding, sections, embeddings);
   } catch (error) {
-    console.error('Failed to parse AI response:', error);
-    console.error('Raw response:', responseText);
-    
-    // Return a fallback response
-    return {
-      sectionsToUpdate: [],
-      updatedSections: [],
-      summaryOfChanges: [`Error processing request: ${error.message}`]
-    };
+    signal?.throwIfAborted();
+    // An exhausted budget is not a provider failure to work around
+    if (error instanceof BudgetExceededError) throw error;
+    console.error('Embedding retrieval failed, falling back to keyword ranking:', error);
+    method = 'keyword';
+    ranked = rankSectionsByKeywords(query, sections);
   }
+
+  const scored = new Set(ranked.map(r => r.section.id));
+  return {
+    method,
+    ranked: [...ranked, ...sections.filter(s => !scored.has(s.id)).map(section => ({ section, score: 0 }))]
+  };
 }
 
-function parseMarkdownSections(content: string) {
-  const lines = content.split('\n');
-  const sections: any[] = [];
-  let currentSection: any = null;
-  let contentLines: string[] = [];
+// Embeddings are computed lazily: stored vectors are reused while the
+// section's content hash and the embedding model match, the rest are
+// embedded in batches and stored for next time.
+async function loadSectionEmbeddings(
+  sections: SectionRow[],
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<Map<string, number[]>> {
+  const provider = getEmbeddingProvider();
+  const texts = sections.map(s => `${s.title}\n\n${s.content}`);
+  const hashes = await Promise.all(texts.map(hashSectionContent));
 
-  lines.forEach((line, index) => {
-    const headerMatch = line.match(/^(#+)\s+(.+)$/);
-    
-    if (headerMatch) {
-      if (currentSection) {
-        sections.push({
-          ...currentSection,
-          content: contentLines.join('\n').trim(),
-          end_index: index - 1
-        });
+  const { data: stored, error } = await db()
+    .from('brd_section_embeddings')
+    .select('section_id, content_hash, model, embedding')
+    .in('section_id', sections.map(s => s.id));
+
+  if (error) {
+    throw new Error(`Failed to load section embeddings: ${error.message}`);
+  }
+
+  const embeddings = new Map<string, number[]>();
+  stored.forEach(row => {
+    const index = sections.findIndex(s => s.id === row.section_id);
+    if (index !== -1 && row.content_hash === hashes[index] && row.model === provider.model) {
+      embeddings.set(row.section_id, row.embedding);
+    }
+  });
+
+  const missing = sections.map((_, index) => index).filter(index => !embeddings.has(sections[index].id));
+  for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(index => texts[index]), usage, signal);
+    batch.forEach((index, i) => embeddings.set(sections[index].id, vectors[i]));
+
+    const { error: saveError } = await db()
+      .from('brd_section_embeddings')
+      .upsert(batch.map((index, i) => ({
+        section_id: sections[index].id,
+        content_hash: hashes[index],
+        model: provider.model,
+        embedding: vectors[i],
+        updated_at: new Date().toISOString()
+      })));
+
+    // Only a cache: a section deleted in the meantime must not fail the request
+    if (saveError) {
+      console.error('Failed to store section embeddings:', saveError);
+    }
+  }
+
+  if (missing.length > 0) {
+    console.log(`Embedded ${missing.length} of ${sections.length} sections with ${provider.name} (${provider.model})`);
+  }
+  return embeddings;
+}
+
+// Embedding requests are checked against the budget and recorded in
+// llm_usage like completions, under the `embedding` task. They are not
+// retried: retrieval falls back to keyword ranking instead.
+async function embedTexts(texts: string[], usage: UsageContext, signal?: AbortSignal): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
+  await assertWithinBudget(usage);
+  const startedAt = Date.now();
+  const promptTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+  const record = (status: string, reported: TokenUsage | null) =>
+    recordUsage(usage, 'embedding', provider, {
+      status,
+      attempts: 1,
+      latencyMs: Date.now() - startedAt,
+      tokens: reported ?? { promptTokens: status === 'failed' ? 0 : promptTokens, completionTokens: 0 },
+      estimated: !reported
+    });
+
+  try {
+    const embeddings = await provider.embed(texts, signal);
+    await record('succeeded', embeddings.usage);
+    return embeddings.vectors;
+  } catch (error) {
+    await record(signal?.aborted ? 'cancelled' : 'failed', null);
+    throw error;
+  }
+}
+
+function getRetrievalLimit(): number {
+  const limit = Number(Deno.env.get('RETRIEVAL_LIMIT'));
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_RETRIEVAL_LIMIT;
+}
+
+function getTokenBudget(): { contextTokens: number; outputTokens: number } {
+  const context = Number(Deno.env.get('LLM_CONTEXT_TOKENS'));
+  const output = Number(Deno.env.get('LLM_MAX_OUTPUT_TOKENS'));
+  return {
+    contextTokens: Number.isInteger(context) && context > 0 ? context : DEFAULT_CONTEXT_TOKENS,
+    outputTokens: Number.isInteger(output) && output > 0 ? output : DEFAULT_MAX_OUTPUT_TOKENS
+  };
+}
+
+async function applyAIEdit(
+  data: { edit_id: string; accepted_change_ids: string[] },
+  usage: UsageContext,
+  emit: EmitEvent = silent,
+  signal?: AbortSignal
+) {
+  console.log('Applying AI edit:', data.edit_id);
+
+  try {
+    const { data: edit, error: editError } = await db()
+      .from('ai_edits')
+      .select('*')
+      .eq('id', data.edit_id)
+      .single();
+
+    if (editError || !edit) {
+      throw new Error('Edit proposal not found');
+    }
+
+    if (edit.status !== 'pending') {
+      throw new Error(`Edit proposal is already ${edit.status}`);
+    }
+
+    const acceptedIds = new Set(data.accepted_change_ids ?? []);
+    const accepted = (edit.proposed_changes as ProposedChange[])
+      .filter(c => acceptedIds.has(c.id))
+      .sort((a, b) => APPLY_ORDER.indexOf(a.kind) - APPLY_ORDER.indexOf(b.kind));
+
+    if (accepted.length === 0) {
+      await db()
+        .from('ai_edits')
+        .update({ status: 'rejected' })
+        .eq('id', edit.id);
+
+      return { status: 'rejected', sections_updated: [], summary_of_changes: [] };
+    }
+
+    const { data: document, error: docError } = await db()
+      .from('brd_documents')
+      .select('*')
+      .eq('id', edit.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error('Document not found');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', edit.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    // Refuse to overwrite sections that changed after the proposal was made.
+    for (const change of accepted) {
+      if (change.kind === 'insert') continue;
+      const section = sections.find(s => s.id === change.section_id);
+      if (!section) {
+        throw new ConflictError(`Section "${change.title}" no longer exists`);
       }
-      
-      currentSection = {
-        title: headerMatch[2],
-        level: headerMatch[1].length,
-        start_index: index
+      if (change.kind === 'update' && section.content !== change.original_content) {
+        throw new ConflictError(`Section "${change.title}" changed since the edit was proposed`);
+      }
+    }
+
+    emit('stage', { stage: 'patching', message: `Applying ${accepted.length} changes` });
+    const patch = applyDocumentPatch(document.current_content, sections, accepted.map(c => c.operation));
+
+    emit('stage', { stage: 'summarizing', message: 'Regenerating summaries for changed sections' });
+    const { summaries, stats } = await summarizeChangedSections(
+      sections,
+      patch.sections,
+      { ...usage, documentId: edit.document_id }
+    );
+
+    // Last point where cancelling leaves the document untouched
+    signal?.throwIfAborted();
+    emit('stage', { stage: 'committing', message: 'Saving the document' });
+    await saveSectionTree(edit.document_id, document.current_content, patch, summaries);
+
+    // Remember how to undo every accepted change so the edit can be reverted later
+    const sectionChanges: SectionChange[] = accepted.map((change, i) => {
+      const before = sections.find(s => s.id === change.section_id);
+      const after = patch.sections.find(s => s.id === change.section_id);
+      const removed = change.kind === 'delete'
+        ? sections.filter(s => !patch.sections.some(p => p.id === s.id))
+        : [];
+      return {
+        change_id: change.id,
+        kind: change.kind,
+        section_id: change.section_id,
+        title: change.title,
+        before_title: before?.title ?? null,
+        after_title: after?.title ?? null,
+        before_content: before?.content ?? '',
+        after_content: after?.content ?? '',
+        before_summary: before?.summary ?? null,
+        after_summary: after ? summaries.get(after.id) ?? null : null,
+        restored_summaries: Object.fromEntries(removed.map(s => [s.id, s.summary])),
+        inverse: patch.inverses[i]
       };
-      contentLines = [];
-    } else if (currentSection) {
-      contentLines.push(line);
+    });
+
+    await recordVersion({
+      document_id: edit.document_id,
+      content: patch.content,
+      source: 'ai_edit',
+      author: AI_AUTHOR,
+      message: edit.prompt,
+      ai_edit_id: edit.id
+    });
+
+    const sectionsUpdated = accepted.map(c => ({ id: c.section_id, title: c.title, kind: c.kind, reasoning: c.reasoning }));
+
+    await db()
+      .from('ai_edits')
+      .update({
+        status: 'applied',
+        sections_updated: sectionsUpdated,
+        section_changes: sectionChanges
+      })
+      .eq('id', edit.id);
+
+    return {
+      status: 'applied',
+      updated_content: patch.content,
+      sections_updated: sectionsUpdated,
+      summary_of_changes: edit.summary_of_changes ?? [],
+      summary_cache: stats
+    };
+  } catch (error) {
+    console.error('Error in applyAIEdit:', error);
+    throw error;
+  }
+}
+
+async function revertAIEdit(data: { edit_id: string }, usage: UsageContext) {
+  console.log('Reverting AI edit:', data.edit_id);
+
+  try {
+    const { data: edit, error: editError } = await db()
+      .from('ai_edits')
+      .select('*')
+      .eq('id', data.edit_id)
+      .single();
+
+    if (editError || !edit) {
+      throw new Error('Edit not found');
+    }
+
+    if (edit.status !== 'applied') {
+      throw new Error(`Only applied edits can be reverted (this edit is ${edit.status})`);
     }
+
+    const { data: document, error: docError } = await db()
+      .from('brd_documents')
+      .select('*')
+      .eq('id', edit.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error('Document not found');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', edit.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    // Later edits to other sections are fine; a later change to one of this
+    // edit's sections would be silently lost, so refuse instead.
+    const changes = edit.section_changes as SectionChange[];
+    for (const change of changes) {
+      // Deleted sections are restored from the stored markdown
+      if (change.after_title === null) continue;
+      const section = sections.find(s => s.id === change.section_id);
+      if (!section) {
+        throw new ConflictError(`Section "${change.title}" no longer exists`);
+      }
+      if (section.content !== change.after_content || section.title !== change.after_title) {
+        throw new ConflictError(`Section "${change.title}" was changed after this edit; revert the later change first`);
+      }
+    }
+
+    const inverse = [...changes].reverse().flatMap(c => c.inverse);
+    const patch = applyDocumentPatch(document.current_content, sections, inverse);
+
+    const knownSummaries = new Map<string, string | null>();
+    for (const change of changes) {
+      if (change.kind === 'update') knownSummaries.set(change.section_id, change.before_summary);
+      Object.entries(change.restored_summaries ?? {}).forEach(([id, summary]) => knownSummaries.set(id, summary));
+    }
+    const { summaries, stats } = await summarizeChangedSections(
+      sections,
+      patch.sections,
+      { ...usage, documentId: edit.document_id },
+      knownSummaries
+    );
+    await saveSectionTree(edit.document_id, document.current_content, patch, summaries);
+
+    await recordVersion({
+      document_id: edit.document_id,
+      content: patch.content,
+      source: 'revert',
+      author: AI_AUTHOR,
+      message: `Reverted: ${edit.prompt}`,
+      ai_edit_id: edit.id
+    });
+
+    await db()
+      .from('ai_edits')
+      .update({
+        status: 'reverted',
+        reverted_at: new Date().toISOString()
+      })
+      .eq('id', edit.id);
+
+    return new Response(
+      JSON.stringify({
+        status: 'reverted',
+        updated_content: patch.content,
+        sections_reverted: changes.map(c => ({ id: c.section_id, title: c.title })),
+        summary_cache: stats
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in revertAIEdit:', error);
+    throw error;
+  }
+}
+
+// Turns the validated model output into reviewable changes, each carrying the
+// patch operation that applies it. Insert locations are resolved here so the
+// reviewer sees exactly where a section will land.
+function buildProposedChanges(response: AIEditResponse, sections: SectionRow[]): ProposedChange[] {
+  const changes: ProposedChange[] = [];
+  const byId = new Map(sections.map(s => [s.id, s]));
+  const label = (id: string | null) => {
+    const section = id ? byId.get(id) : undefined;
+    return section ? `${section.path ? `${section.path} ` : ''}${section.title}` : 'the top level';
+  };
+  const resolveParent = (op: { parentId?: string | null; afterSectionId?: string | null }) =>
+    op.parentId !== undefined ? op.parentId : op.afterSectionId ? byId.get(op.afterSectionId)?.parent_id ?? null : null;
+  const describeLocation = (parentId: string | null, afterSectionId: string | null) =>
+    afterSectionId ? `after ${label(afterSectionId)}` : parentId ? `first under ${label(parentId)}` : 'at the top of the document';
+
+  for (const updatedSection of response.updatedSections) {
+    const section = byId.get(updatedSection.id);
+    if (!section || changes.some(c => c.kind === 'update' && c.section_id === section.id)) continue;
+
+    changes.push({
+      id: crypto.randomUUID(),
+      kind: 'update',
+      section_id: section.id,
+      title: section.title,
+      path: section.path,
+      reasoning: response.sectionsToUpdate.find(t => t.id === section.id)?.reasoning ?? '',
+      description: `Update ${label(section.id)}`,
+      original_content: section.content,
+      proposed_content: updatedSection.content,
+      operation: { type: 'replace', sectionId: section.id, content: updatedSection.content }
+    });
+  }
+
+  for (const op of response.operations) {
+    if (op.type === 'insert') {
+      const sectionId = createSectionId();
+      const parentId = resolveParent(op);
+      const afterSectionId = op.afterSectionId ?? null;
+      changes.push({
+        id: crypto.randomUUID(),
+        kind: 'insert',
+        section_id: sectionId,
+        title: op.title,
+        path: '',
+        reasoning: op.reasoning,
+        description: `Add "${op.title}" ${describeLocation(parentId, afterSectionId)}`,
+        original_content: '',
+        proposed_content: op.content,
+        operation: { type: 'insert', sectionId, title: op.title, content: op.content, parentId, afterSectionId }
+      });
+      continue;
+    }
+
+    const section = byId.get(op.sectionId)!;
+    const base = {
+      id: crypto.randomUUID(),
+      section_id: section.id,
+      title: section.title,
+      path: section.path,
+      reasoning: op.reasoning,
+      original_content: section.content
+    };
+
+    if (op.type === 'delete') {
+      changes.push({
+        ...base,
+        kind: 'delete',
+        description: `Delete ${label(section.id)} and its subsections`,
+        proposed_content: '',
+        operation: { type: 'delete', sectionId: section.id }
+      });
+    } else if (op.type === 'rename') {
+      changes.push({
+        ...base,
+        kind: 'rename',
+        description: `Rename ${label(section.id)} to "${op.newTitle}"`,
+        proposed_content: section.content,
+        operation: { type: 'rename', sectionId: section.id, title: op.newTitle }
+      });
+    } else {
+      const parentId = resolveParent(op);
+      const afterSectionId = op.afterSectionId ?? null;
+      changes.push({
+        ...base,
+        kind: 'move',
+        description: `Move ${label(section.id)} ${describeLocation(parentId, afterSectionId)}`,
+        proposed_content: section.content,
+        operation: { type: 'move', sectionId: section.id, parentId, afterSectionId }
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Reuses stored summaries for sections whose content is unchanged and only
+// summarizes new or rewritten sections, going through the summary cache.
+async function summarizeChangedSections(
+  previous: SectionRow[],
+  next: TreeSection[],
+  usage: UsageContext,
+  knownSummaries: Map<string, string | null> = new Map()
+): Promise<{ summaries: Map<string, string | null>; stats: SummaryCacheStats }> {
+  const summaries = new Map<string, string | null>();
+  const pending: TreeSection[] = [];
+  for (const section of next) {
+    const before = previous.find(s => s.id === section.id);
+    if (knownSummaries.has(section.id)) {
+      summaries.set(section.id, knownSummaries.get(section.id) ?? null);
+    } else if (before && before.content === section.content) {
+      summaries.set(section.id, before.summary);
+    } else {
+      pending.push(section);
+    }
+  }
+
+  const generated = await summarizeWithCache(pending.map(section => section.content), usage);
+  pending.forEach((section, i) => summaries.set(section.id, generated.summaries[i]));
+  return { summaries, stats: generated.stats };
+}
+
+// Looks every content up in the caller's brd_summary_cache entries by
+// normalized hash and only calls the LLM for misses, at most
+// SUMMARY_CONCURRENCY at a time.
+async function summarizeWithCache(
+  contents: string[],
+  usage: UsageContext
+): Promise<{ summaries: string[]; fromCache: boolean[]; stats: SummaryCacheStats }> {
+  const stats: SummaryCacheStats = { hits: 0, misses: 0 };
+  if (contents.length === 0) return { summaries: [], fromCache: [], stats };
+
+  const model = getLLMProvider().model;
+  const hashes = await Promise.all(contents.map(hashSectionContent));
+
+  const cached = new Map<string, string>();
+  const { data: rows, error } = await db()
+    .from('brd_summary_cache')
+    .select('content_hash, summary')
+    .eq('model', model)
+    .in('content_hash', [...new Set(hashes)]);
+
+  if (error) {
+    // The cache is an optimization; fall back to summarizing everything
+    console.error('Error reading summary cache:', error);
+  } else {
+    rows.forEach(row => cached.set(row.content_hash, row.summary));
+  }
+
+  const fromCache = hashes.map(hash => cached.has(hash));
+  contents.forEach((content, i) => {
+    if (!content.trim()) return;
+    if (fromCache[i]) stats.hits++;
+    else stats.misses++;
+  });
+
+  // Identical contents in one batch are summarized once
+  const missing = [...new Set(hashes.filter((hash, i) => !fromCache[i] && contents[i].trim()))];
+  const generated = new Map<string, string>();
+  await mapWithConcurrency(missing, getSummaryConcurrency(), async hash => {
+    generated.set(hash, await generateAISummary(contents[hashes.indexOf(hash)], usage));
+  });
+
+  const summaries = contents.map((content, i) => {
+    if (!content.trim()) return EMPTY_SUMMARY;
+    return cached.get(hashes[i]) ?? generated.get(hashes[i])!;
   });
 
-  if (currentSection) {
-    sections.push({
-      ...currentSection,
-      content: contentLines.join('\n').trim(),
-      end_index: lines.length - 1
+  const fresh = [...generated].map(([hash, summary]) => ({ content_hash: hash, model, summary }));
+  const cacheable = fresh.filter(row => row.summary !== FAILED_SUMMARY);
+  if (cacheable.length > 0) {
+    const { error: insertError } = await db()
+      .from('brd_summary_cache')
+      .upsert(cacheable, { onConflict: 'owner_id,content_hash,model', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('Error writing summary cache:', insertError);
+    }
+  }
+
+  console.log(`Summary cache: ${stats.hits} hits, ${stats.misses} misses`);
+  return { summaries, fromCache, stats };
+}
+
+// Writes the patched content and the whole section tree, with recomputed line
+// ranges, parents and outline numbers, in a single transaction. Sections
+// missing from `next` are removed.
+async function saveSectionTree(
+  documentId: string,
+  baseContent: string,
+  patch: { content: string; sections: TreeSection[] },
+  summaries: Map<string, string | null>
+) {
+  const { error } = await db().rpc('save_brd_section_tree', {
+    p_document_id: documentId,
+    p_base_content: baseContent,
+    p_content: patch.content,
+    p_sections: patch.sections.map(section => ({
+      id: section.id,
+      parent_id: section.parentId,
+      position: section.position,
+      path: section.path,
+      title: section.title,
+      level: section.level,
+      content: section.content,
+      summary: summaries.get(section.id) ?? null,
+      start_index: section.startIndex,
+      end_index: section.endIndex
+    }))
+  });
+
+  if (error) {
+    if (error.code === SERIALIZATION_FAILURE) {
+      throw new ConflictError('The document changed while the edit was being applied; reload and try again');
+    }
+    throw new Error(`Failed to save sections: ${error.message}`);
+  }
+}
+
+async function saveDocument(data: { document_id: string; content: string }, usage: UsageContext, author: string) {
+  console.log('Saving document:', data.document_id);
+
+  try {
+    const { data: document, error: docError } = await db()
+      .from('brd_documents')
+      .select('*')
+      .eq('id', data.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error('Document not found');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', data.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    // Sections keep their ids across the re-parse, so unchanged sections keep
+    // their summaries and only new or edited ones are summarized again.
+    const next = buildSectionTree(parseMarkdownSections(data.content), sections);
+    const { summaries, stats } = await summarizeChangedSections(sections, next, usage);
+    await saveSectionTree(data.document_id, document.current_content, { content: data.content, sections: next }, summaries);
+
+    if (document.current_content !== data.content) {
+      await recordVersion({
+        document_id: data.document_id,
+        content: data.content,
+        source: 'manual',
+        author,
+        message: 'Manual save'
+      });
+    }
+
+    const changed = next.filter(section => {
+      const before = sections.find(s => s.id === section.id);
+      return !before || before.content !== section.content || before.title !== section.title;
     });
+    const removed = sections.filter(s => !next.some(section => section.id === s.id));
+
+    return new Response(
+      JSON.stringify({
+        sections_changed: changed.map(s => ({ id: s.id, title: s.title })),
+        sections_removed: removed.map(s => ({ id: s.id, title: s.title })),
+        summary_cache: stats
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in saveDocument:', error);
+    throw error;
+  }
+}
+
+async function duplicateDocument(data: { document_id: string; filename?: string }, author: string) {
+  console.log('Duplicating document:', data.document_id);
+
+  try {
+    const { data: source, error: docError } = await db()
+      .from('brd_documents')
+      .select('*')
+      .eq('id', data.document_id)
+      .single();
+
+    if (docError || !source) {
+      throw new Error('Document not found');
+    }
+
+    const { data: sections, error: sectionsError } = await db()
+      .from('brd_sections')
+      .select('*')
+      .eq('document_id', data.document_id)
+      .order('start_index');
+
+    if (sectionsError) {
+      throw new Error('Failed to load sections');
+    }
+
+    const { data: copy, error: copyError } = await db()
+      .from('brd_documents')
+      .insert({
+        filename: data.filename ?? `Copy of ${source.filename}`,
+        original_content: source.original_content,
+        current_content: source.current_content
+      })
+      .select()
+      .single();
+
+    if (copyError) {
+      throw new Error(`Failed to duplicate document: ${copyError.message}`);
+    }
+
+    // Sections get fresh ids; parent links are remapped onto the new ids.
+    const idMap = new Map(sections.map(s => [s.id, createSectionId()]));
+    const { error: copySectionsError } = await db()
+      .from('brd_sections')
+      .insert(sections.map(s => ({
+        id: idMap.get(s.id),
+        parent_id: s.parent_id ? idMap.get(s.parent_id) ?? null : null,
+        position: s.position,
+        path: s.path,
+        title: s.title,
+        level: s.level,
+        content: s.content,
+        summary: s.summary,
+        start_index: s.start_index,
+        end_index: s.end_index,
+        document_id: copy.id
+      })));
+
+    if (copySectionsError) {
+      throw new Error(`Failed to duplicate sections: ${copySectionsError.message}`);
+    }
+
+    await recordVersion({
+      document_id: copy.id,
+      content: copy.current_content,
+      source: 'upload',
+      author,
+      message: `Duplicated from ${source.filename}`
+    });
+
+    return new Response(
+      JSON.stringify({ document_id: copy.id, filename: copy.filename }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error duplicating document:', error);
+    throw error;
+  }
+}
+
+// Columns exported for each table; owners are left out since an import
+// belongs to whoever runs it
+const WORKSPACE_COLUMNS: Record<typeof WORKSPACE_TABLES[number], string> = {
+  brd_documents: 'id, filename, original_content, current_content, created_at, updated_at',
+  brd_sections: 'id, document_id, parent_id, position, path, title, level, content, summary, start_index, end_index, created_at, updated_at',
+  ai_edits: 'id, document_id, prompt, status, proposed_changes, section_changes, sections_updated, summary_of_changes, retrieval, reverted_at, created_at',
+  brd_document_versions: 'id, document_id, version_number, content, source, author, message, ai_edit_id, created_at',
+  brd_chat_messages: 'id, document_id, role, content, ai_edit_id, retrieval, created_at'
+};
+
+// PostgREST caps the rows a single request returns
+const EXPORT_PAGE_SIZE = 1000;
+
+async function selectWorkspaceRows(table: typeof WORKSPACE_TABLES[number], documentIds: string[]) {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await db()
+      .from(table)
+      .select(WORKSPACE_COLUMNS[table])
+      .in(table === 'brd_documents' ? 'id' : 'document_id', documentIds)
+      .order('created_at')
+      .order('id')
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+    rows.push(...data);
+    if (data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+// Exports the given documents, or all of the caller's documents, with their
+// sections, AI edits, versions and chat threads as a workspace bundle.
+async function exportWorkspace(data: { document_ids?: string[] }) {
+  console.log('Exporting workspace:', data.document_ids ?? 'all documents');
+
+  try {
+    let query = db().from('brd_documents').select('id');
+    if (data.document_ids) {
+      query = query.in('id', data.document_ids);
+    }
+    const { data: documents, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load documents: ${error.message}`);
+    }
+    if (documents.length === 0) {
+      throw new Error(data.document_ids ? 'Document not found' : 'There are no documents to export');
+    }
+
+    const documentIds = documents.map(document => document.id);
+    const bundle: Record<string, unknown> = {
+      format: WORKSPACE_BUNDLE_FORMAT,
+      version: WORKSPACE_BUNDLE_VERSION,
+      exported_at: new Date().toISOString()
+    };
+    for (const table of WORKSPACE_TABLES) {
+      bundle[table] = await selectWorkspaceRows(table, documentIds);
+    }
+
+    return new Response(
+      JSON.stringify(bundle),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error exporting workspace:', error);
+    throw error;
+  }
+}
+
+// Recreates the documents in a workspace bundle under the caller. Every row
+// gets a new id, so importing a bundle twice, or into the project it came
+// from, makes copies rather than colliding with existing rows.
+async function importWorkspace(data: { bundle: unknown }) {
+  const result = validateWorkspaceBundle(data.bundle);
+  if (result.success === false) {
+    console.error('Workspace bundle failed validation:', result.errors);
+    throw new InvalidBundleError(result.errors);
+  }
+
+  const bundle: WorkspaceBundle = remapWorkspaceBundle(result.data, () => crypto.randomUUID());
+  console.log('Importing workspace with', bundle.brd_documents.length, 'documents');
+
+  // Version numbers are assigned on insert, so versions go in oldest first
+  const versions = [...bundle.brd_document_versions].sort((a, b) =>
+    a.document_id.localeCompare(b.document_id) || a.version_number - b.version_number
+  );
+  const rows = { ...bundle, brd_document_versions: versions };
+
+  try {
+    for (const table of WORKSPACE_TABLES) {
+      if (rows[table].length === 0) continue;
+      const { error } = await db().from(table).insert(rows[table]);
+      if (error) {
+        throw new Error(`Failed to import ${table}: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    console.error('Error importing workspace:', error);
+    // Deleting the documents cascades to everything inserted under them
+    const { error: cleanupError } = await db()
+      .from('brd_documents')
+      .delete()
+      .in('id', bundle.brd_documents.map(document => document.id));
+    if (cleanupError) {
+      console.error('Failed to remove partially imported documents:', cleanupError);
+    }
+    throw error;
+  }
+
+  return new Response(
+    JSON.stringify({
+      documents: bundle.brd_documents.map(document => ({ document_id: document.id, filename: document.filename }))
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function recordVersion(version: {
+  document_id: string;
+  content: string;
+  source: 'upload' | 'manual' | 'ai_edit' | 'revert';
+  message: string;
+  author: string;
+  ai_edit_id?: string;
+}) {
+  // version_number is assigned by a database trigger
+  const { error } = await db()
+    .from('brd_document_versions')
+    .insert(version);
+
+  if (error) {
+    throw new Error(`Failed to save document version: ${error.message}`);
+  }
+}
+
+async function generateSummary(data: { content: string }, usage: UsageContext) {
+  try {
+    const summary = await generateAISummary(data.content, usage);
+    return new Response(
+      JSON.stringify({ summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error generating summary:', error);
+    throw error;
+  }
+}
+
+async function generateAISummary(content: string, usage: UsageContext): Promise<string> {
+  if (!content.trim()) return EMPTY_SUMMARY;
+  
+  try {
+    const response = await callLLMWithRetry('summary', [
+      {
+        role: 'system',
+        content: 'You are a business analyst. Create a concise 1-2 sentence summary of the following BRD section content. Focus on the key requirements and objectives.'
+      },
+      {
+        role: 'user',
+        content: content.slice(0, 1000) // Limit content length
+      }
+    ], usage);
+
+    return response.slice(0, 200); // Limit summary length
+  } catch (error) {
+    console.error('Error generating AI summary:', error);
+    return FAILED_SUMMARY;
   }
+}
+
+function getLLMProvider(): LLMProvider {
+  if (!llmProvider) {
+    llmProvider = createProviderFromEnv(key => Deno.env.get(key));
+    console.log(`Using LLM provider ${llmProvider.name} (${llmProvider.model})`);
+  }
+  return llmProvider;
+}
+
+function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProviderFromEnv(key => Deno.env.get(key));
+    console.log(`Using embedding provider ${embeddingProvider.name} (${embeddingProvider.model})`);
+  }
+  return embeddingProvider;
+}
+
+// Runs an action and answers with its JSON result, or, when the client asked
+// for `stream`, with server-sent events: the action's progress events
+// followed by a `result` (or `error`) event.
+async function respond(
+  req: Request,
+  stream: boolean | undefined,
+  run: (emit: EmitEvent, signal?: AbortSignal) => Promise<unknown>
+): Promise<Response> {
+  if (!stream) {
+    return new Response(
+      JSON.stringify(await run(silent)),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Closing the stream (the client's Cancel) aborts the upstream LLM call
+  const abort = new AbortController();
+  req.signal?.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: EmitEvent = (event, payload) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, payload)));
+        }
+      };
+
+      try {
+        emit('result', await run(emit, abort.signal));
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log('Streaming request cancelled by the client');
+        } else {
+          console.error('Error in streaming action:', error);
+          emit('error', { error: error.message, details: error.details, status: error.status ?? 500 });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  });
+}
+
+// Turns streamed tokens of an edit response into `selection` and `draft`
+// events. Parsing the partial text is throttled; drafts are only re-sent when
+// they grew.
+function createDraftReporter(emit: EmitEvent): (token: string) => void {
+  let text = '';
+  let lastScan = 0;
+  let selected = 0;
+  const sent = new Map<number, number>();
+
+  return token => {
+    text += token;
+    const now = Date.now();
+    if (now - lastScan < DRAFT_EVENT_INTERVAL_MS) return;
+    lastScan = now;
+
+    const { selected: selection, drafts } = extractEditDrafts(text);
+    if (selection.length > selected) {
+      selected = selection.length;
+      emit('selection', { sections: selection });
+    }
+    drafts.forEach((draft, index) => {
+      if ((sent.get(index) ?? -1) < draft.content.length) {
+        sent.set(index, draft.content.length);
+        emit('draft', { index, section_id: draft.id, title: draft.title, content: draft.content });
+      }
+    });
+  };
+}
+
+// Every call is checked against the budget first and recorded in llm_usage
+// afterwards, whether it succeeded, failed or was cancelled.
+async function callLLMWithRetry(
+  task: LLMTask,
+  messages: ChatMessage[],
+  usage: UsageContext,
+  maxRetries: number = 3,
+  stream: { createTokenHandler?: () => (token: string) => void; signal?: AbortSignal } = {}
+): Promise<string> {
+  const provider = getLLMProvider();
+  await assertWithinBudget(usage);
+  const startedAt = Date.now();
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const record = (status: string, attempts: number, reported: TokenUsage | null, text = '') =>
+    recordUsage(usage, task, provider, {
+      status,
+      attempts,
+      latencyMs: Date.now() - startedAt,
+      tokens: reported ?? { promptTokens: status === 'failed' ? 0 : promptTokens, completionTokens: estimateTokens(text) },
+      estimated: !reported
+    });
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(`${provider.name} call attempt ${attempt}/${maxRetries}`);
+      
+      const completion = await provider.complete({
+        task,
+        messages,
+        temperature: 0.3,
+        maxTokens: getTokenBudget().outputTokens,
+        // Each attempt starts a fresh stream, so it gets a fresh handler
+        onToken: stream.createTokenHandler?.(),
+        signal: stream.signal,
+      });
+      await record('succeeded', attempt, completion.usage, completion.text);
+      return completion.text;
+    } catch (error) {
+      // A cancelled request is not a failure worth retrying
+      if (stream.signal?.aborted) {
+        await record('cancelled', attempt, null);
+        stream.signal.throwIfAborted();
+      }
+      console.error(`${provider.name} attempt ${attempt} failed:`, error);
+      
+      if (attempt === maxRetries) {
+        await record('failed', attempt, null);
+        throw new Error(`${provider.name} failed after ${maxRetries} attempts: ${error.message}`);
+      }
+      
+      // Wait before retry (exponential backoff)
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+    }
+  }
+
+  throw new Error('Unexpected error in LLM retry logic');
+}
+
+async function recordUsage(
+  usage: UsageContext,
+  task: UsageTask,
+  provider: { name: string; model: string },
+  call: { status: string; attempts: number; latencyMs: number; tokens: TokenUsage; estimated: boolean }
+) {
+  const prices = readModelPrices(key => Deno.env.get(key));
+  const { error } = await db()
+    .from('llm_usage')
+    .insert({
+      document_id: usage.documentId,
+      user_id: usage.userId,
+      action: usage.action,
+      task,
+      provider: provider.name,
+      model: provider.model,
+      prompt_tokens: call.tokens.promptTokens,
+      completion_tokens: call.tokens.completionTokens,
+      estimated: call.estimated,
+      cost_usd: calculateCost(call.tokens, prices[provider.model]),
+      latency_ms: call.latencyMs,
+      attempts: call.attempts,
+      status: call.status
+    });
+
+  // Accounting must never fail the call it accounts for
+  if (error) {
+    console.error('Failed to record LLM usage:', error);
+  }
+}
+
+// Budgets are calendar-month spend caps (UTC) on all usage, per document and
+// per user. Limits come from the LLM_BUDGET_* environment variables.
+async function assertWithinBudget(usage: UsageContext) {
+  const limits = readBudgetLimits(key => Deno.env.get(key));
+  const checks: [number | null, string, { p_document_id?: string; p_user_id?: string }][] = [
+    [limits.total, 'The monthly LLM budget', {}],
+    [usage.documentId ? limits.perDocument : null, 'This document\'s monthly LLM budget', { p_document_id: usage.documentId! }],
+    [usage.userId ? limits.perUser : null, 'Your monthly LLM budget', { p_user_id: usage.userId! }]
+  ];
+
+  for (const [limit, label, scope] of checks) {
+    if (limit === null) continue;
+    const spent = await getSpendThisMonth(scope);
+    if (spent >= limit) {
+      throw new BudgetExceededError(`${label} of $${limit.toFixed(2)} has been used up ($${spent.toFixed(2)} spent)`);
+    }
+  }
+}
+
+async function getSpendThisMonth(scope: { p_document_id?: string; p_user_id?: string }): Promise<number> {
+  const { data, error } = await db().rpc('llm_spend_since', { p_since: startOfMonth(), ...scope });
+  if (error) {
+    throw new Error(`Failed to read LLM spend: ${error.message}`);
+  }
+  return data ?? 0;
+}
+
+function startOfMonth(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+// Limits and this month's spend for the usage dashboard
+async function getUsageLimits(usage: UsageContext) {
+  const limits = readBudgetLimits(key => Deno.env.get(key));
+  return new Response(
+    JSON.stringify({
+      period_start: startOfMonth(),
+      limits: {
+        total: limits.total,
+        per_document: limits.perDocument,
+        per_user: limits.perUser
+      },
+      spent: {
+        total: await getSpendThisMonth({}),
+        user: usage.userId ? await getSpendThisMonth({ p_user_id: usage.userId }) : null
+      }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Asks the model for a JSON response and validates it against a shared schema.
+// On invalid output the validation errors are sent back for a repair attempt.
+async function requestValidatedResponse<T>(
+  messages: ChatMessage[],
+  validate: (raw: string) => ValidationResult<T>,
+  usage: UsageContext,
+  emit: EmitEvent = silent,
+  signal?: AbortSignal,
+  task: LLMTask = 'edit'
+): Promise<T> {
+  const conversation = [...messages];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    emit('stage', {
+      stage: 'drafting',
+      message: attempt === 0 ? 'Drafting changes' : 'Asking the model to fix its response'
+    });
+    const raw = await callLLMWithRetry(task, conversation, usage, 3, {
+      createTokenHandler: emit === silent ? undefined : () => createDraftReporter(emit),
+      signal
+    });
+
+    emit('stage', { stage: 'validating', message: 'Checking the proposed changes' });
+    const result = validate(raw);
+
+    if (result.success) {
+      return result.data;
+    }
+
+    console.error(`AI ${task} response failed validation (attempt ${attempt + 1}):`, result.errors);
+    console.error('Raw response:', raw);
+
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      throw new AIResponseValidationError(result.errors);
+    }
+
+    conversation.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your response did not match the required format:
+${result.errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY the corrected JSON object.`
+      }
+    );
+  }
+
+  throw new Error('Unexpected error in AI edit repair logic');
+}
 
-  return sections;
+function toSectionRows(content: string) {
+  return buildSectionTree(parseMarkdownSections(content)).map(section => ({
+    id: section.id,
+    parent_id: section.parentId,
+    position: section.position,
+    path: section.path,
+    title: section.title,
+    level: section.level,
+    content: section.content,
+    start_index: section.startIndex,
+    end_index: section.endIndex
+  }));
 }
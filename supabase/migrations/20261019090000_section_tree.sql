@@ -0,0 +1,9 @@
+-- Turn brd_sections into a tree: every section keeps a stable id across
+-- re-parses and points at its parent heading.
+alter table public.brd_sections
+  add column parent_id uuid references public.brd_sections(id) on delete cascade,
+  add column position integer not null default 0,
+  add column path text not null default '';
+
+create index brd_sections_document_id_idx on public.brd_sections(document_id);
+create index brd_sections_parent_id_idx on public.brd_sections(parent_id);
@@ -0,0 +1,5 @@
+-- AI edits are proposed first and only committed once the user accepts them.
+alter table public.ai_edits
+  add column status text not null default 'applied'
+    check (status in ('pending', 'applied', 'rejected')),
+  add column proposed_changes jsonb not null default '[]'::jsonb;
@@ -0,0 +1,10 @@
+-- Keep before/after content for every section an applied AI edit touched so
+-- the edit can be reverted.
+alter table public.ai_edits
+  add column section_changes jsonb not null default '[]'::jsonb,
+  add column reverted_at timestamptz;
+
+alter table public.ai_edits drop constraint ai_edits_status_check;
+alter table public.ai_edits
+  add constraint ai_edits_status_check
+    check (status in ('pending', 'applied', 'rejected', 'reverted'));
@@ -0,0 +1,36 @@
+-- Snapshot of a document's content after every upload, manual save, AI edit
+-- and revert.
+create table public.brd_document_versions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.brd_documents(id) on delete cascade,
+  version_number integer not null,
+  content text not null,
+  source text not null check (source in ('upload', 'manual', 'ai_edit', 'revert')),
+  author text,
+  message text,
+  ai_edit_id uuid references public.ai_edits(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (document_id, version_number)
+);
+
+create index brd_document_versions_document_id_idx
+  on public.brd_document_versions(document_id, version_number desc);
+
+-- Number versions per document so callers never have to.
+create or replace function public.assign_brd_version_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext(new.document_id::text));
+  select coalesce(max(version_number), 0) + 1
+    into new.version_number
+    from public.brd_document_versions
+    where document_id = new.document_id;
+  return new;
+end;
+$$;
+
+create trigger brd_document_versions_number
+  before insert on public.brd_document_versions
+  for each row execute function public.assign_brd_version_number();
@@ -0,0 +1,10 @@
+-- Deleting a document from the library removes everything that belongs to it.
+alter table public.brd_sections
+  drop constraint brd_sections_document_id_fkey,
+  add constraint brd_sections_document_id_fkey
+    foreign key (document_id) references public.brd_documents(id) on delete cascade;
+
+alter table public.ai_edits
+  drop constraint ai_edits_document_id_fkey,
+  add constraint ai_edits_document_id_fkey
+    foreign key (document_id) references public.brd_documents(id) on delete cascade;
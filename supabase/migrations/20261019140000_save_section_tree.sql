@@ -0,0 +1,82 @@
+-- Replaces a document's content and its whole section tree in one
+-- transaction, so a failed write never leaves `current_content` and
+-- `brd_sections` out of step. `p_base_content` is the content the caller
+-- patched; if the document changed in the meantime nothing is written.
+-- Section ids are only ever updated within the same document: an id that
+-- already belongs to another document is an error, never a move.
+create or replace function public.save_brd_section_tree(
+  p_document_id uuid,
+  p_base_content text,
+  p_content text,
+  p_sections jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_current text;
+begin
+  select current_content
+    into v_current
+    from public.brd_documents
+    where id = p_document_id
+    for update;
+
+  if not found then
+    raise exception 'Document % not found', p_document_id using errcode = 'no_data_found';
+  end if;
+
+  if v_current is distinct from p_base_content then
+    raise exception 'Document % changed while it was being edited', p_document_id
+      using errcode = 'serialization_failure';
+  end if;
+
+  if exists (
+    select 1
+      from public.brd_sections b
+      where b.id in (select (value ->> 'id')::uuid from jsonb_array_elements(p_sections))
+        and b.document_id <> p_document_id
+  ) then
+    raise exception 'Section ids of document % already belong to another document', p_document_id
+      using errcode = 'unique_violation';
+  end if;
+
+  update public.brd_documents
+    set current_content = p_content,
+        updated_at = now()
+    where id = p_document_id;
+
+  insert into public.brd_sections (
+    id, document_id, parent_id, position, path, title, level, content, summary, start_index, end_index
+  )
+  select s.id, p_document_id, s.parent_id, s.position, s.path, s.title, s.level, s.content, s.summary,
+         s.start_index, s.end_index
+    from jsonb_to_recordset(p_sections) as s(
+      id uuid,
+      parent_id uuid,
+      position integer,
+      path text,
+      title text,
+      level integer,
+      content text,
+      summary text,
+      start_index integer,
+      end_index integer
+    )
+  on conflict (id) do update
+    set parent_id = excluded.parent_id,
+        position = excluded.position,
+        path = excluded.path,
+        title = excluded.title,
+        level = excluded.level,
+        content = excluded.content,
+        summary = excluded.summary,
+        start_index = excluded.start_index,
+        end_index = excluded.end_index
+    where brd_sections.document_id = p_document_id;
+
+  delete from public.brd_sections
+    where document_id = p_document_id
+      and id not in (select (value ->> 'id')::uuid from jsonb_array_elements(p_sections));
+end;
+$$;
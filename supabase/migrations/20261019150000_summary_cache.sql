@@ -0,0 +1,10 @@
+-- Section summaries keyed by a hash of the normalized section content, so
+-- unchanged text is never sent to the LLM twice. Summaries are kept per model
+-- because switching providers should not serve another model's output.
+create table public.brd_summary_cache (
+  content_hash text not null,
+  model text not null,
+  summary text not null,
+  created_at timestamptz not null default now(),
+  primary key (content_hash, model)
+);
@@ -0,0 +1,127 @@
+-- Background summarization of uploaded documents. A job has one item per
+-- section; workers claim items in small batches so a large document never
+-- fans out into hundreds of simultaneous LLM calls, and a failed or
+-- interrupted job can be resumed where it stopped.
+create table public.brd_processing_jobs (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.brd_documents(id) on delete cascade,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  total_items integer not null default 0,
+  completed_items integer not null default 0,
+  failed_items integer not null default 0,
+  -- Items answered from brd_summary_cache instead of the LLM
+  cache_hits integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index brd_processing_jobs_document_id_idx
+  on public.brd_processing_jobs(document_id, created_at desc);
+
+create table public.brd_processing_job_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.brd_processing_jobs(id) on delete cascade,
+  section_id uuid not null references public.brd_sections(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'running', 'done', 'failed')),
+  attempts integer not null default 0,
+  error text,
+  updated_at timestamptz not null default now(),
+  unique (job_id, section_id)
+);
+
+create index brd_processing_job_items_job_id_idx
+  on public.brd_processing_job_items(job_id, status);
+
+-- Hands out up to p_limit pending items. skip locked lets several workers
+-- drain the same job without picking the same section twice.
+create or replace function public.claim_brd_job_items(p_job_id uuid, p_limit integer)
+returns setof public.brd_processing_job_items
+language plpgsql
+as $$
+begin
+  update public.brd_processing_jobs
+    set status = 'running',
+        updated_at = now()
+    where id = p_job_id
+      and status in ('queued', 'running');
+
+  return query
+    update public.brd_processing_job_items
+      set status = 'running',
+          attempts = attempts + 1,
+          updated_at = now()
+      where id in (
+        select id
+          from public.brd_processing_job_items
+          where job_id = p_job_id
+            and status = 'pending'
+          order by id
+          limit p_limit
+          for update skip locked
+      )
+      returning *;
+end;
+$$;
+
+-- Records the outcome of one item and refreshes the job's counters. The job
+-- is finished once no item is pending or running.
+create or replace function public.finish_brd_job_item(
+  p_item_id uuid,
+  p_status text,
+  p_error text default null,
+  p_cache_hit boolean default false
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_job_id uuid;
+begin
+  update public.brd_processing_job_items
+    set status = p_status,
+        error = p_error,
+        updated_at = now()
+    where id = p_item_id
+    returning job_id into v_job_id;
+
+  update public.brd_processing_jobs j
+    set completed_items = counts.done,
+        failed_items = counts.failed,
+        cache_hits = j.cache_hits + case when p_cache_hit then 1 else 0 end,
+        status = case
+          when counts.open > 0 then j.status
+          when counts.failed > 0 then 'failed'
+          else 'completed'
+        end,
+        updated_at = now()
+    from (
+      select count(*) filter (where status = 'done') as done,
+             count(*) filter (where status = 'failed') as failed,
+             count(*) filter (where status in ('pending', 'running')) as open
+        from public.brd_processing_job_items
+        where job_id = v_job_id
+    ) counts
+    where j.id = v_job_id;
+end;
+$$;
+
+-- Puts failed and interrupted items back in the queue.
+create or replace function public.requeue_brd_job(p_job_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  update public.brd_processing_job_items
+    set status = 'pending',
+        error = null,
+        updated_at = now()
+    where job_id = p_job_id
+      and status in ('running', 'failed');
+
+  update public.brd_processing_jobs
+    set status = 'queued',
+        updated_at = now()
+    where id = p_job_id
+      and status <> 'completed';
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Conversation with the assistant, one thread per document. Assistant turns
+-- that proposed an edit point at the ai_edits row holding the changeset.
+create table public.brd_chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.brd_documents(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  ai_edit_id uuid references public.ai_edits(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index brd_chat_messages_document_id_idx
+  on public.brd_chat_messages(document_id, created_at);
@@ -0,0 +1,17 @@
+-- One embedding per section, computed when the section is first retrieved
+-- and recomputed once its content hash or the embedding model changes.
+create table public.brd_section_embeddings (
+  section_id uuid primary key references public.brd_sections(id) on delete cascade,
+  content_hash text not null,
+  model text not null,
+  embedding real[] not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Which sections were sent to the model, with their retrieval scores, so a
+-- proposal or answer can show what it was based on.
+alter table public.ai_edits
+  add column retrieval jsonb;
+
+alter table public.brd_chat_messages
+  add column retrieval jsonb;
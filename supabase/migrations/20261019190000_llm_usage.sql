@@ -0,0 +1,57 @@
+-- One row per LLM call, retries included, for cost reporting and budget
+-- limits. Rows outlive the document they were made for.
+create table public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid references public.brd_documents(id) on delete set null,
+  user_id uuid,
+  action text not null,
+  task text not null,
+  provider text not null,
+  model text not null,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  -- Token counts are estimates when the provider did not report usage
+  estimated boolean not null default false,
+  cost_usd numeric(12, 6) not null default 0,
+  latency_ms integer not null,
+  attempts integer not null default 1,
+  status text not null check (status in ('succeeded', 'failed', 'cancelled')),
+  created_at timestamptz not null default now()
+);
+
+create index llm_usage_created_at_idx on public.llm_usage(created_at);
+create index llm_usage_document_id_idx on public.llm_usage(document_id, created_at);
+create index llm_usage_user_id_idx on public.llm_usage(user_id, created_at);
+
+-- Daily totals per document, action and model for the usage dashboard.
+create view public.llm_usage_daily as
+select
+  (date_trunc('day', u.created_at))::date as day,
+  u.document_id,
+  d.filename,
+  u.action,
+  u.model,
+  count(*)::integer as calls,
+  sum(u.prompt_tokens)::integer as prompt_tokens,
+  sum(u.completion_tokens)::integer as completion_tokens,
+  sum(u.cost_usd)::double precision as cost_usd
+from public.llm_usage u
+left join public.brd_documents d on d.id = u.document_id
+group by 1, 2, 3, 4, 5;
+
+-- Spend since a point in time, optionally for one document or one user.
+create or replace function public.llm_spend_since(
+  p_since timestamptz,
+  p_document_id uuid default null,
+  p_user_id uuid default null
+)
+returns double precision
+language sql
+stable
+as $$
+  select coalesce(sum(cost_usd), 0)::double precision
+  from public.llm_usage
+  where created_at >= p_since
+    and (p_document_id is null or document_id = p_document_id)
+    and (p_user_id is null or user_id = p_user_id);
+$$;
@@ -0,0 +1,158 @@
+-- Documents belong to the user who created them. Row-level security limits
+-- every table to the caller's own documents; the edge function runs queries
+-- with the caller's JWT, so the same rules apply to it.
+--
+-- Rows created before this migration have no owner and are hidden from
+-- everyone until an owner is assigned with the service role.
+
+alter table public.brd_documents
+  add column owner_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.brd_sections
+  add column owner_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.ai_edits
+  add column owner_id uuid default auth.uid() references auth.users(id) on delete cascade;
+
+create index brd_documents_owner_id_idx on public.brd_documents(owner_id);
+create index brd_sections_owner_id_idx on public.brd_sections(owner_id);
+create index ai_edits_owner_id_idx on public.ai_edits(owner_id);
+
+-- Tables with an owner
+alter table public.brd_documents enable row level security;
+alter table public.brd_sections enable row level security;
+alter table public.ai_edits enable row level security;
+
+create policy "Owners manage their documents" on public.brd_documents
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- Sections and AI edits may only be written under the caller's own documents
+create policy "Owners manage their sections" on public.brd_sections
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid())
+  );
+
+create policy "Owners manage their AI edits" on public.ai_edits
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid())
+  );
+
+-- Tables that belong to a document through document_id
+alter table public.brd_document_versions enable row level security;
+alter table public.brd_chat_messages enable row level security;
+alter table public.brd_processing_jobs enable row level security;
+
+create policy "Owners manage their document versions" on public.brd_document_versions
+  for all to authenticated
+  using (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()))
+  with check (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()));
+
+create policy "Owners manage their chat messages" on public.brd_chat_messages
+  for all to authenticated
+  using (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()))
+  with check (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()));
+
+create policy "Owners manage their processing jobs" on public.brd_processing_jobs
+  for all to authenticated
+  using (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()))
+  with check (exists (select 1 from public.brd_documents d where d.id = document_id and d.owner_id = auth.uid()));
+
+alter table public.brd_processing_job_items enable row level security;
+
+create policy "Owners manage their processing job items" on public.brd_processing_job_items
+  for all to authenticated
+  using (exists (
+    select 1 from public.brd_processing_jobs j
+    join public.brd_documents d on d.id = j.document_id
+    where j.id = job_id and d.owner_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.brd_processing_jobs j
+    join public.brd_documents d on d.id = j.document_id
+    where j.id = job_id and d.owner_id = auth.uid()
+  ));
+
+alter table public.brd_section_embeddings enable row level security;
+
+create policy "Owners manage their section embeddings" on public.brd_section_embeddings
+  for all to authenticated
+  using (exists (select 1 from public.brd_sections s where s.id = section_id and s.owner_id = auth.uid()))
+  with check (exists (select 1 from public.brd_sections s where s.id = section_id and s.owner_id = auth.uid()));
+
+-- Summaries are cached per user: the cache is keyed by a hash of content
+-- another user could predict, so a shared cache would let anyone plant the
+-- summary everyone else is served. Existing entries have no owner and are
+-- derived data, so they are dropped rather than assigned. Entries can be
+-- added but not changed or removed.
+delete from public.brd_summary_cache;
+
+alter table public.brd_summary_cache
+  add column owner_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  drop constraint brd_summary_cache_pkey,
+  add primary key (owner_id, content_hash, model);
+
+alter table public.brd_summary_cache enable row level security;
+
+create policy "Users read their summary cache" on public.brd_summary_cache
+  for select to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Users add to their summary cache" on public.brd_summary_cache
+  for insert to authenticated
+  with check (owner_id = auth.uid());
+
+-- Users see and record their own LLM usage. Budget totals span all users, so
+-- the spend function runs with its owner's rights and only returns a sum.
+-- Narrowed to a user or a document, it only answers for the caller and the
+-- caller's own documents.
+alter table public.llm_usage enable row level security;
+
+create policy "Users read their LLM usage" on public.llm_usage
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users record their LLM usage" on public.llm_usage
+  for insert to authenticated
+  with check (user_id = auth.uid());
+
+alter view public.llm_usage_daily set (security_invoker = true);
+
+create or replace function public.llm_spend_since(
+  p_since timestamptz,
+  p_document_id uuid default null,
+  p_user_id uuid default null
+)
+returns double precision
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is not null and p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot read the LLM spend of another user'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if p_document_id is not null and not exists (
+    select 1 from public.brd_documents d where d.id = p_document_id and d.owner_id = auth.uid()
+  ) then
+    raise exception 'Cannot read the LLM spend of document %', p_document_id
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return (
+    select coalesce(sum(cost_usd), 0)::double precision
+    from public.llm_usage
+    where created_at >= p_since
+      and (p_document_id is null or document_id = p_document_id)
+      and (p_user_id is null or user_id = p_user_id)
+  );
+end;
+$$;